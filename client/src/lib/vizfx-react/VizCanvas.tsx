@@ -0,0 +1,94 @@
+/**
+ * VizCanvas - Renders a canvas and owns the VizFX instance drawing into it
+ */
+
+import {
+  CanvasHTMLAttributes,
+  ReactNode,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { VizFX, VizFXOptions } from '../vizfx';
+import { VizContext } from './context';
+
+export interface VizCanvasProps
+  extends Omit<VizFXOptions, 'canvas'>,
+    Omit<CanvasHTMLAttributes<HTMLCanvasElement>, 'width' | 'height'> {
+  /** Layers such as <GradientMeshLayer />, and anything using useVizFX() */
+  children?: ReactNode;
+  /** Start the animation loop once mounted (default: true) */
+  autoStart?: boolean;
+  /** Called with the new instance after every mount */
+  onReady?: (viz: VizFX) => void;
+}
+
+const VIZ_OPTION_KEYS = [
+  'width',
+  'height',
+  'dpr',
+  'alpha',
+  'antialias',
+  'backend',
+  'targetFps',
+  'pauseWhenHidden',
+  'maxDpr',
+  'resolutionScale',
+  'timeScale',
+  'fixedTimeStep',
+  'preserveDrawingBuffer',
+  'reducedMotion',
+  'reducedMotionSpeed',
+  'label',
+  'onFallback',
+  'stats',
+] as const;
+
+/**
+ * VizFX options are read when the canvas mounts. To apply new ones, remount
+ * with a different `key`.
+ */
+export function VizCanvas(props: VizCanvasProps) {
+  const { children, autoStart = true, onReady, ...rest } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [viz, setViz] = useState<VizFX | null>(null);
+
+  const options: Omit<VizFXOptions, 'canvas'> = {};
+  const canvasProps: Record<string, unknown> = { ...rest };
+  for (const key of VIZ_OPTION_KEYS) {
+    if (key in canvasProps) {
+      (options as Record<string, unknown>)[key] = canvasProps[key];
+      delete canvasProps[key];
+    }
+  }
+
+  // Latest values for the mount effect, which only runs once per mount
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    // StrictMode mounts twice; each mount gets its own instance and the
+    // cleanup below destroys the first one
+    const instance = new VizFX({ ...optionsRef.current, canvas: canvasRef.current });
+    if (autoStart) instance.start();
+
+    setViz(instance);
+    onReadyRef.current?.(instance);
+
+    return () => {
+      setViz(null);
+      instance.destroy();
+    };
+  }, [autoStart]);
+
+  return (
+    <VizContext.Provider value={viz}>
+      <canvas ref={canvasRef} {...canvasProps} />
+      {children}
+    </VizContext.Provider>
+  );
+}
@@ -0,0 +1,16 @@
+/**
+ * VizFX React context - The instance owned by the nearest <VizCanvas>
+ */
+
+import { createContext, useContext } from 'react';
+import { VizFX } from '../vizfx';
+
+export const VizContext = createContext<VizFX | null>(null);
+
+/**
+ * The VizFX instance of the surrounding <VizCanvas>. Null until the canvas
+ * has mounted, and again after it unmounts.
+ */
+export function useVizFX(): VizFX | null {
+  return useContext(VizContext);
+}
@@ -0,0 +1,41 @@
+/**
+ * VizFX React hooks
+ */
+
+import { useEffect, useState } from 'react';
+import { PointerState } from '../vizfx';
+import { useVizFX } from './context';
+
+/**
+ * Pointer state over the surrounding <VizCanvas>, re-rendering on every
+ * change. Null until the pointer first moves over or presses the canvas.
+ */
+export function usePointer(): PointerState | null {
+  const viz = useVizFX();
+  const [pointer, setPointer] = useState<PointerState | null>(null);
+
+  useEffect(() => {
+    const interaction = viz?.getInteraction();
+    if (!interaction) return;
+
+    // The manager reuses one state object, so copy it for React
+    const handleChange = (state: PointerState) => {
+      setPointer({
+        position: state.position.clone(),
+        normalized: state.normalized.clone(),
+        velocity: state.velocity.clone(),
+        isDown: state.isDown,
+        isOver: state.isOver,
+      });
+    };
+
+    interaction.on('change', handleChange);
+
+    return () => {
+      interaction.off('change', handleChange);
+      setPointer(null);
+    };
+  }, [viz]);
+
+  return pointer;
+}
@@ -0,0 +1,24 @@
+/**
+ * VizFX React bindings
+ */
+
+export { VizCanvas } from './VizCanvas';
+export type { VizCanvasProps } from './VizCanvas';
+export { VizContext, useVizFX } from './context';
+export { usePointer } from './hooks';
+export {
+  EffectLayer,
+  FloatingParticlesLayer,
+  GradientMeshLayer,
+  ParticleSystemLayer,
+  WaveEffectLayer,
+  useEffectLayer,
+} from './layers';
+export type {
+  EffectLayerProps,
+  FloatingParticlesLayerProps,
+  GradientMeshLayerProps,
+  LayerProps,
+  ParticleSystemLayerProps,
+  WaveEffectLayerProps,
+} from './layers';
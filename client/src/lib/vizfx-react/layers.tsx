@@ -0,0 +1,141 @@
+/**
+ * Effect layers - Declarative effects inside <VizCanvas>. Prop changes are
+ * diffed and applied live with setOptions() instead of recreating the effect.
+ */
+
+import { Ref, forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import {
+  Effect,
+  FloatingParticles,
+  FloatingParticlesOptions,
+  GradientMesh,
+  GradientMeshOptions,
+  LayerOptions,
+  ParticleSystem,
+  ParticleSystemOptions,
+  VizFX,
+  WaveEffect,
+  WaveEffectOptions,
+} from '../vizfx';
+import { useVizFX } from './context';
+import { LAYER_DEFAULTS, LAYER_KEYS, diffOptions, splitLayerProps } from './props';
+
+/**
+ * Layer settings accepted by every layer component
+ */
+export type LayerProps = LayerOptions;
+
+export type GradientMeshLayerProps = GradientMeshOptions & LayerProps;
+export type WaveEffectLayerProps = WaveEffectOptions & LayerProps;
+export type FloatingParticlesLayerProps = FloatingParticlesOptions & LayerProps;
+export type ParticleSystemLayerProps = ParticleSystemOptions & LayerProps;
+
+export interface EffectLayerProps extends LayerProps {
+  /** Registered effect type, e.g. 'gradient-mesh' */
+  type: string;
+  options?: Record<string, unknown>;
+}
+
+/**
+ * Add an effect to the surrounding <VizCanvas> for as long as the calling
+ * component is mounted, and keep its options and layer in sync with `props`.
+ * The effect is created once per VizFX instance; `create` only runs then.
+ */
+export function useEffectLayer<E extends Effect>(
+  create: (options: Record<string, unknown>) => E,
+  props: Record<string, unknown>,
+  ref?: Ref<E | null>
+): E | null {
+  const viz = useVizFX();
+  const [effect, setEffect] = useState<E | null>(null);
+  const { layer, options } = splitLayerProps(props);
+
+  // What the effect currently has, for diffing
+  const applied = useRef<{ options: Record<string, unknown>; layer: LayerOptions }>({
+    options: {},
+    layer: {},
+  });
+  const latest = useRef({ create, layer, options });
+  latest.current = { create, layer, options };
+
+  useImperativeHandle<E | null, E | null>(ref, () => effect, [effect]);
+
+  useEffect(() => {
+    if (!viz) return;
+
+    const { create, layer, options } = latest.current;
+    const instance = create(options);
+    viz.addEffect(instance, layer);
+    applied.current = { options, layer };
+    setEffect(instance);
+
+    return () => {
+      setEffect(null);
+      viz.removeEffect(instance);
+    };
+  }, [viz]);
+
+  useEffect(() => {
+    if (!viz || !effect) return;
+
+    const changes = diffOptions(effect, applied.current.options, options);
+    if (changes) effect.setOptions?.(changes);
+
+    const layerChanges: Record<string, unknown> = {};
+    for (const key of LAYER_KEYS) {
+      const value = layer[key] ?? LAYER_DEFAULTS[key];
+      const previous = applied.current.layer[key] ?? LAYER_DEFAULTS[key];
+      if (value !== previous) layerChanges[key] = value;
+    }
+    viz.getLayer(effect)?.set(layerChanges as LayerOptions);
+
+    applied.current = { options, layer };
+  });
+
+  return effect;
+}
+
+export const GradientMeshLayer = forwardRef<GradientMesh | null, GradientMeshLayerProps>(
+  function GradientMeshLayer(props, ref) {
+    useEffectLayer(options => new GradientMesh(options as GradientMeshOptions), props as Record<string, unknown>, ref);
+    return null;
+  }
+);
+
+export const WaveEffectLayer = forwardRef<WaveEffect | null, WaveEffectLayerProps>(
+  function WaveEffectLayer(props, ref) {
+    useEffectLayer(options => new WaveEffect(options as WaveEffectOptions), props as Record<string, unknown>, ref);
+    return null;
+  }
+);
+
+export const FloatingParticlesLayer = forwardRef<
+  FloatingParticles | null,
+  FloatingParticlesLayerProps
+>(function FloatingParticlesLayer(props, ref) {
+  useEffectLayer(options => new FloatingParticles(options as FloatingParticlesOptions), props as Record<string, unknown>, ref);
+  return null;
+});
+
+export const ParticleSystemLayer = forwardRef<ParticleSystem | null, ParticleSystemLayerProps>(
+  function ParticleSystemLayer(props, ref) {
+    useEffectLayer(options => new ParticleSystem(options as ParticleSystemOptions), props as Record<string, unknown>, ref);
+    return null;
+  }
+);
+
+/**
+ * Any registered effect by name, including custom ones. Options are
+ * validated against the effect's schema when it is created. Give the layer
+ * a new `key` when changing `type`.
+ */
+export const EffectLayer = forwardRef<Effect | null, EffectLayerProps>(
+  function EffectLayer({ type, options = {}, ...layer }, ref) {
+    useEffectLayer(
+      initial => VizFX.createEffect(type, initial),
+      { ...options, ...layer },
+      ref
+    );
+    return null;
+  }
+);
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { GradientMesh, ParticleSystem, Vec2 } from '../vizfx';
+import { diffOptions, splitLayerProps } from './props';
+
+describe('splitLayerProps', () => {
+  it('separates layer settings from effect options and drops undefined', () => {
+    expect(
+      splitLayerProps({ zIndex: 2, blendMode: 'screen', speed: 1, colors: undefined })
+    ).toEqual({ layer: { zIndex: 2, blendMode: 'screen' }, options: { speed: 1 } });
+  });
+});
+
+describe('diffOptions', () => {
+  const mesh = new GradientMesh();
+
+  it('returns null when nothing changed', () => {
+    expect(diffOptions(mesh, { speed: 1 }, { speed: 1 })).toBeNull();
+  });
+
+  it('returns only the changed options', () => {
+    expect(diffOptions(mesh, { speed: 1, complexity: 3 }, { speed: 2, complexity: 3 })).toEqual({
+      speed: 2,
+    });
+  });
+
+  it('compares inline arrays, vectors and plain objects by content', () => {
+    const particles = new ParticleSystem();
+    const props = () => ({
+      startColors: ['#ffffff', '#000000'],
+      gravity: new Vec2(0, -10),
+      emitter: { type: 'circle', radius: 20 },
+      forces: [{ type: 'drag', coefficient: 0.5 }],
+    });
+
+    expect(diffOptions(particles, props(), props())).toBeNull();
+    expect(
+      diffOptions(particles, props(), { ...props(), forces: [{ type: 'drag', coefficient: 1 }] })
+    ).toEqual({ forces: [{ type: 'drag', coefficient: 1 }] });
+  });
+
+  it('compares other objects by identity', () => {
+    class Image {}
+    expect(diffOptions(mesh, { texture: new Image() }, { texture: new Image() })).not.toBeNull();
+  });
+
+  it('resets removed props to their schema default', () => {
+    expect(diffOptions(mesh, { speed: 2 }, {})).toEqual({ speed: 0.5 });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Layer props - Splitting component props into layer settings and effect
+ * options, and diffing options between renders
+ */
+
+import { BlendMode, Effect, LayerOptions, Vec2, VizFX } from '../vizfx';
+
+export const LAYER_DEFAULTS: Required<LayerOptions> = {
+  zIndex: 0,
+  opacity: 1,
+  visible: true,
+  blendMode: 'normal' as BlendMode,
+  reducedMotion: null,
+};
+
+export const LAYER_KEYS = Object.keys(LAYER_DEFAULTS) as (keyof LayerOptions)[];
+
+export function splitLayerProps(props: Record<string, unknown>): {
+  layer: LayerOptions;
+  options: Record<string, unknown>;
+} {
+  const layer: Record<string, unknown> = {};
+  const options: Record<string, unknown> = {};
+  for (const key of Object.keys(props)) {
+    if (props[key] === undefined) continue;
+    if ((LAYER_KEYS as string[]).includes(key)) {
+      layer[key] = props[key];
+    } else {
+      options[key] = props[key];
+    }
+  }
+  return { layer, options };
+}
+
+/**
+ * Compare option values by content, so inline arrays, vectors and plain
+ * objects (emitter shapes, force fields) don't count as changes on every
+ * render. Other objects, such as images, compare by identity.
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => sameValue(value, b[index]));
+  }
+  if (a instanceof Vec2 && b instanceof Vec2) {
+    return a.x === b.x && a.y === b.y;
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(key => key in b && sameValue(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Options that differ from the ones applied last. Props that were removed
+ * go back to their schema default.
+ */
+export function diffOptions(
+  effect: Effect,
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>
+): Record<string, unknown> | null {
+  const changes: Record<string, unknown> = {};
+  let changed = false;
+
+  for (const key of Object.keys(next)) {
+    if (!sameValue(previous[key], next[key])) {
+      changes[key] = next[key];
+      changed = true;
+    }
+  }
+
+  const schema = effect.type ? VizFX.getEffectSchema(effect.type) : undefined;
+  for (const key of Object.keys(previous)) {
+    if (key in next) continue;
+    const fallback = schema?.[key]?.default;
+    if (fallback !== undefined) {
+      changes[key] = fallback;
+      changed = true;
+    }
+  }
+
+  return changed ? changes : null;
+}
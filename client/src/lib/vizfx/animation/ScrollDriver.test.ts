@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { VizFX } from '../core/VizFX';
+import { WaveEffect } from '../effects/WaveEffect';
+import { ScrollDriver } from './ScrollDriver';
+
+const VIEWPORT = 1000;
+
+/**
+ * A section one viewport tall, scrolled so its progress is `progress`
+ */
+function createSection() {
+  const section = { top: VIEWPORT };
+  const element = {
+    getBoundingClientRect: () => ({ top: section.top, height: VIEWPORT }),
+  } as unknown as HTMLElement;
+  const scrollTo = (progress: number) => {
+    section.top = VIEWPORT - progress * 2 * VIEWPORT;
+  };
+  return { element, scrollTo };
+}
+
+const viz = { play: () => viz } as unknown as VizFX;
+
+/**
+ * The phase a wave uploads when drawn, read through a WebGL context that
+ * compiles anything and records uniforms by name
+ */
+function trackPhase(wave: WaveEffect): () => number {
+  const uniforms = new Map<string, unknown>();
+  const gl = new Proxy(
+    {},
+    {
+      get: (_target, key) => {
+        if (typeof key !== 'string') return undefined;
+        if (key === key.toUpperCase()) return 0;
+        if (key === 'getUniformLocation') return (_program: unknown, name: string) => name;
+        if (key.startsWith('uniform')) {
+          return (name: string, value: unknown) => uniforms.set(name, value);
+        }
+        if (key === 'getShaderParameter' || key === 'getProgramParameter') return () => true;
+        return () => ({});
+      },
+    }
+  ) as WebGLRenderingContext;
+
+  wave.init(gl);
+  return () => {
+    wave.render(gl);
+    return uniforms.get('u_phase') as number;
+  };
+}
+
+describe('ScrollDriver', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('maps scroll progress through keyframes', () => {
+    vi.stubGlobal('window', { innerHeight: VIEWPORT });
+    const { element, scrollTo } = createSection();
+    const wave = new WaveEffect();
+    const driver = new ScrollDriver(viz, { element, smoothing: 0 }).bind(wave, {
+      amplitude: [0.1, 0.3],
+    });
+
+    scrollTo(0.5);
+    driver.update(1 / 60);
+    expect(driver.getProgress()).toBeCloseTo(0.5, 6);
+    expect(wave.getOptions().amplitude).toBeCloseTo(0.2, 6);
+  });
+
+  it('scrubs speed smoothly in both directions', () => {
+    vi.stubGlobal('window', { innerHeight: VIEWPORT });
+    const { element, scrollTo } = createSection();
+    const wave = new WaveEffect();
+    const driver = new ScrollDriver(viz, { element, smoothing: 0.15 }).bind(wave, {
+      speed: [0.2, 3],
+    });
+
+    const phase = trackPhase(wave);
+
+    const dt = 1 / 60;
+    let time = 0;
+    const steps: number[] = [];
+    const frame = (progress: number) => {
+      scrollTo(progress);
+      time += dt;
+      driver.update(dt);
+      const before = phase();
+      wave.update(time, dt);
+      steps.push(phase() - before);
+    };
+
+    // Down the page, back up, then a quick flick down again
+    for (let i = 0; i <= 60; i++) frame(i / 60);
+    for (let i = 60; i >= 0; i--) frame(i / 60);
+    for (let i = 0; i <= 10; i++) frame(i / 10);
+
+    // The phase only ever advances, by at most the fastest speed per frame
+    const firstStep = steps.shift()!;
+    expect(firstStep).toBeGreaterThanOrEqual(0);
+    for (const step of steps) {
+      expect(step).toBeGreaterThanOrEqual(0.2 * dt - 1e-9);
+      expect(step).toBeLessThanOrEqual(3 * dt + 1e-9);
+    }
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Scroll driver - Maps an element's scroll progress to effect options
+ * through keyframes
+ */
+
+import { VizFX } from '../core/VizFX';
+import { clamp } from '../utils/math';
+import { KeyframeInput, KeyframeTrack } from './keyframes';
+import { Animation } from './Tween';
+import {
+  AnimatableProperties,
+  AnimatableValue,
+  isAnimatable,
+  readValues,
+  writeValues,
+} from './values';
+
+export interface ScrollDriverOptions {
+  /** Element (or selector) whose scroll position drives the animation */
+  element: HTMLElement | string;
+  /**
+   * How progress is measured (default: 'cover'):
+   * - 'cover': 0 when the element enters at the bottom of the viewport,
+   *   1 when it leaves at the top
+   * - 'contain': 0 when its top reaches the top of the viewport, 1 when its
+   *   bottom reaches the bottom (for sections taller than the viewport)
+   */
+  range?: 'cover' | 'contain';
+  /**
+   * Seconds it takes to catch up with the scroll position; 0 follows it
+   * exactly (default: 0.15)
+   */
+  smoothing?: number;
+  /** Called whenever the smoothed progress changes */
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Keyframes per option of a target
+ */
+export type ScrollTracks<T> = {
+  [K in keyof AnimatableProperties<T>]?: KeyframeInput<
+    NonNullable<AnimatableProperties<T>[K]>
+  >;
+};
+
+interface ScrollBinding {
+  target: object;
+  tracks: Map<string, KeyframeTrack>;
+}
+
+/**
+ * Changes smaller than this don't trigger updates
+ */
+const PROGRESS_EPSILON = 1e-4;
+
+export class ScrollDriver implements Animation {
+  private element: HTMLElement;
+  private range: 'cover' | 'contain';
+  private smoothing: number;
+  private onProgress: ((progress: number) => void) | null;
+  private bindings: ScrollBinding[] = [];
+  private progress: number | null = null;
+  private visible: boolean = true;
+  private observer: IntersectionObserver | null = null;
+  private destroyed: boolean = false;
+
+  /**
+   * Create a driver that runs on the scene clock of `viz`
+   */
+  constructor(viz: VizFX, options: ScrollDriverOptions) {
+    if (typeof options.element === 'string') {
+      const element = document.querySelector(options.element);
+      if (!(element instanceof HTMLElement)) {
+        throw new Error(`Scroll element not found: ${options.element}`);
+      }
+      this.element = element;
+    } else {
+      this.element = options.element;
+    }
+
+    this.range = options.range ?? 'cover';
+    this.smoothing = Math.max(0, options.smoothing ?? 0.15);
+    this.onProgress = options.onProgress ?? null;
+
+    // No layout reads while the section is out of view
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.observer = new IntersectionObserver(entries => {
+        this.visible = entries[entries.length - 1].isIntersecting;
+      });
+      this.observer.observe(this.element);
+    }
+
+    viz.play(this);
+  }
+
+  /**
+   * Drive options of a target with keyframes over scroll progress, e.g.
+   * `{ speed: [0.2, 2], colors: [{ at: 0, value: [...] }, ...] }`
+   */
+  bind<T extends object>(target: T, tracks: ScrollTracks<T>): ScrollDriver {
+    const resolved = new Map<string, KeyframeTrack>();
+    const keys = Object.keys(tracks);
+    const current = readValues(target, keys);
+
+    for (const key of keys) {
+      const input = tracks[key as keyof ScrollTracks<T>] as KeyframeInput;
+      const track = new KeyframeTrack(input, key);
+      if (!isAnimatable(current[key], track.sample(0))) {
+        throw new Error(
+          `Cannot drive "${key}" from ${JSON.stringify(current[key])} with ${JSON.stringify(track.sample(0))}`
+        );
+      }
+      resolved.set(key, track);
+    }
+
+    this.unbind(target);
+    this.bindings.push({ target, tracks: resolved });
+
+    // Apply right away if we already know where we are
+    if (this.progress !== null) {
+      this.apply(this.bindings[this.bindings.length - 1], this.progress);
+    }
+
+    return this;
+  }
+
+  /**
+   * Stop driving a target. Its options keep their last values.
+   */
+  unbind(target: object): ScrollDriver {
+    this.bindings = this.bindings.filter(binding => binding.target !== target);
+    return this;
+  }
+
+  /**
+   * Smoothed progress from 0 to 1 (0 until the first update)
+   */
+  getProgress(): number {
+    return this.progress ?? 0;
+  }
+
+  update(deltaTime: number): boolean {
+    if (this.destroyed) return true;
+    if (!this.visible) return false;
+
+    const target = this.measure();
+
+    let progress: number;
+    if (this.progress === null || this.smoothing === 0) {
+      progress = target;
+    } else {
+      // Frame-rate independent exponential smoothing
+      const factor = 1 - Math.exp(-deltaTime / this.smoothing);
+      progress = this.progress + (target - this.progress) * factor;
+      if (Math.abs(target - progress) < PROGRESS_EPSILON) progress = target;
+    }
+
+    if (
+      this.progress !== null &&
+      Math.abs(progress - this.progress) < PROGRESS_EPSILON
+    ) {
+      return false;
+    }
+
+    this.progress = progress;
+    for (const binding of this.bindings) {
+      this.apply(binding, progress);
+    }
+    this.onProgress?.(progress);
+
+    return false;
+  }
+
+  /**
+   * Raw scroll progress of the element from 0 to 1
+   */
+  private measure(): number {
+    const rect = this.element.getBoundingClientRect();
+    const viewport = window.innerHeight;
+
+    if (this.range === 'contain') {
+      const distance = rect.height - viewport;
+      if (distance <= 0) return rect.top <= 0 ? 1 : 0;
+      return clamp(-rect.top / distance, 0, 1);
+    }
+
+    return clamp((viewport - rect.top) / (viewport + rect.height), 0, 1);
+  }
+
+  private apply(binding: ScrollBinding, progress: number): void {
+    const values: Record<string, AnimatableValue> = {};
+    binding.tracks.forEach((track, key) => {
+      values[key] = track.sample(progress);
+    });
+    writeValues(binding.target, values);
+  }
+
+  stop(): void {
+    this.destroy();
+  }
+
+  /**
+   * Stop observing and detach from the scene
+   */
+  destroy(): void {
+    this.destroyed = true;
+    this.bindings = [];
+    if (this.observer) {
+      this.observer.disconnect();
+      this.observer = null;
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Timeline } from './Timeline';
+
+describe('Timeline', () => {
+  it('runs steps one after another', () => {
+    const target = { x: 0, y: 0 };
+    const timeline = new Timeline()
+      .to(target, { x: 1 }, { duration: 1, easing: 'linear' })
+      .to(target, { y: 1 }, { duration: 1, easing: 'linear' });
+
+    expect(timeline.getDuration()).toBe(2);
+    timeline.update(0.5);
+    expect(target).toEqual({ x: 0.5, y: 0 });
+    timeline.update(1);
+    expect(target.x).toBe(1);
+    expect(target.y).toBeCloseTo(0.5, 10);
+  });
+
+  it('starts with() steps together and leaves gaps for wait()', () => {
+    const a = { value: 0 };
+    const b = { value: 0 };
+    const timeline = new Timeline()
+      .to(a, { value: 1 }, { duration: 1, easing: 'linear' })
+      .with(b, { value: 1 }, { duration: 1, easing: 'linear' })
+      .wait(0.5);
+
+    expect(timeline.getDuration()).toBe(1.5);
+    timeline.update(0.25);
+    expect(a.value).toBeCloseTo(0.25, 10);
+    expect(b.value).toBeCloseTo(0.25, 10);
+  });
+
+  it('plays backwards on yoyo repeats and completes once', () => {
+    const onComplete = vi.fn();
+    const target = { value: 0 };
+    const timeline = new Timeline({ repeat: 1, yoyo: true, onComplete }).to(
+      target,
+      { value: 1 },
+      { duration: 1, easing: 'linear' }
+    );
+
+    timeline.update(1.25);
+    expect(target.value).toBeCloseTo(0.75, 10);
+    expect(timeline.update(1)).toBe(true);
+    expect(target.value).toBeCloseTo(0, 10);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets the later step win on shared properties', () => {
+    const target = { value: 0 };
+    const timeline = new Timeline()
+      .to(target, { value: 1 }, { duration: 1, easing: 'linear' })
+      .to(target, { value: 5 }, { duration: 1, at: 0.5, easing: 'linear' });
+
+    timeline.update(1);
+    // The second step reads its start value when it first runs, after the
+    // first step has written this frame's value
+    expect(target.value).toBeCloseTo(1 + (5 - 1) * 0.5, 10);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Timeline - Sequences tweens, with repeat and yoyo for the whole sequence
+ */
+
+import { Animation, Tween, TweenOptions, playTime } from './Tween';
+import { AnimatableProperties } from './values';
+
+export interface TimelineOptions {
+  /** Extra plays after the first; Infinity loops forever (default: 0) */
+  repeat?: number;
+  /** Play every other repeat backwards (default: false) */
+  yoyo?: boolean;
+  /** Called when the last play ends (not when stopped) */
+  onComplete?: () => void;
+}
+
+export interface TimelineTweenOptions extends TweenOptions {
+  /**
+   * Start time in seconds from the beginning of the timeline
+   * (default: when the previous step ends)
+   */
+  at?: number;
+}
+
+interface TimelineEntry {
+  tween: Tween;
+  start: number;
+}
+
+export class Timeline implements Animation, PromiseLike<void> {
+  /** Resolves when the timeline completes or is stopped */
+  readonly finished: Promise<void>;
+  private entries: TimelineEntry[] = [];
+  private repeat: number;
+  private yoyo: boolean;
+  private onComplete: (() => void) | null;
+  private end: number = 0;
+  private previousStart: number = 0;
+  private elapsed: number = 0;
+  private lastTime: number = 0;
+  private done: boolean = false;
+  private resolve: () => void = () => {};
+
+  constructor(options: TimelineOptions = {}) {
+    this.repeat = Math.max(0, options.repeat ?? 0);
+    this.yoyo = options.yoyo ?? false;
+    this.onComplete = options.onComplete ?? null;
+    this.finished = new Promise(resolve => {
+      this.resolve = resolve;
+    });
+  }
+
+  /**
+   * Add a tween after the previous step (or at `options.at`)
+   */
+  to<T extends object>(
+    target: T,
+    values: AnimatableProperties<T>,
+    options: TimelineTweenOptions = {}
+  ): Timeline {
+    const tween = new Tween(target, values, options) as Tween;
+    const start = Math.max(0, options.at ?? this.end);
+
+    // Keep entries ordered by start so later steps win on shared properties
+    let index = this.entries.length;
+    while (index > 0 && this.entries[index - 1].start > start) index--;
+    this.entries.splice(index, 0, { tween, start });
+
+    this.previousStart = start;
+    this.end = Math.max(this.end, start + tween.getTotalDuration());
+    return this;
+  }
+
+  /**
+   * Add a tween that starts together with the previous step
+   */
+  with<T extends object>(
+    target: T,
+    values: AnimatableProperties<T>,
+    options: TweenOptions = {}
+  ): Timeline {
+    return this.to(target, values, { ...options, at: this.previousStart });
+  }
+
+  /**
+   * Leave a gap before the next step
+   */
+  wait(seconds: number): Timeline {
+    this.end += Math.max(0, seconds);
+    return this;
+  }
+
+  /**
+   * Length of one play in seconds
+   */
+  getDuration(): number {
+    return this.end;
+  }
+
+  update(deltaTime: number): boolean {
+    if (this.done) return true;
+
+    this.elapsed += deltaTime;
+    this.seek(this.elapsed);
+
+    if (this.elapsed >= this.end * (this.repeat + 1)) {
+      this.done = true;
+      this.onComplete?.();
+      this.resolve();
+    }
+
+    return this.done;
+  }
+
+  /**
+   * Show the state `time` seconds after the timeline started
+   */
+  seek(time: number): void {
+    const local = playTime(time, this.end, this.repeat, this.yoyo);
+    const backwards = local < this.lastTime;
+    this.lastTime = local;
+
+    // Going backwards, the earliest step has the last word
+    const entries = backwards ? [...this.entries].reverse() : this.entries;
+    for (const { tween, start } of entries) {
+      if (local < start && !tween.hasStarted()) continue;
+      tween.seek(Math.min(Math.max(local - start, 0), tween.getTotalDuration()));
+    }
+  }
+
+  isFinished(): boolean {
+    return this.done;
+  }
+
+  stop(): void {
+    if (this.done) return;
+    this.done = true;
+    this.resolve();
+  }
+
+  then<R1 = void, R2 = never>(
+    onfulfilled?: ((value: void) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return this.finished.then(onfulfilled, onrejected);
+  }
+}
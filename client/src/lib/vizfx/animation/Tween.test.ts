@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EASINGS, resolveEasing } from './easing';
+import { Tween, playTime } from './Tween';
+
+describe('easing', () => {
+  it.each(Object.entries(EASINGS))('%s runs from 0 to 1', (_name, easing) => {
+    expect(easing(0)).toBeCloseTo(0, 10);
+    expect(easing(1)).toBeCloseTo(1, 10);
+  });
+
+  it('resolves names and passes functions through', () => {
+    const custom = (t: number) => t * t;
+    expect(resolveEasing('linear')(0.3)).toBe(0.3);
+    expect(resolveEasing(custom)).toBe(custom);
+    expect(() => resolveEasing('bounce' as never)).toThrow('Unknown easing: bounce');
+  });
+});
+
+describe('playTime', () => {
+  it('wraps repeats and ends on the last play', () => {
+    expect(playTime(1.5, 1, 2, false)).toBeCloseTo(0.5, 10);
+    // A boundary ends the previous play rather than starting the next
+    expect(playTime(1, 1, 2, false)).toBe(1);
+    expect(playTime(10, 1, 2, false)).toBe(1);
+  });
+
+  it('plays every other repeat backwards with yoyo', () => {
+    expect(playTime(1.25, 1, 1, true)).toBeCloseTo(0.75, 10);
+    expect(playTime(2, 1, 1, true)).toBe(0);
+  });
+});
+
+describe('Tween', () => {
+  it('interpolates numbers, colours and vectors', () => {
+    const target = { opacity: 0, color: '#000000', offset: { x: 0, y: 0 } };
+    const tween = new Tween(
+      target,
+      { opacity: 1, color: '#ffffff', offset: { x: 10, y: -10 } },
+      { duration: 1, easing: 'linear' }
+    );
+
+    tween.update(0.5);
+    expect(target.opacity).toBeCloseTo(0.5, 10);
+    expect(target.color).toBe('#808080');
+    expect(target.offset).toMatchObject({ x: 5, y: -5 });
+  });
+
+  it('reads start values when the delay runs out', () => {
+    const target = { value: 0 };
+    const tween = new Tween(target, { value: 10 }, { duration: 1, delay: 1, easing: 'linear' });
+
+    tween.update(0.5);
+    target.value = 4;
+    tween.update(1);
+    expect(target.value).toBeCloseTo(7, 10);
+  });
+
+  it('writes through setOptions() on effects', () => {
+    const options = { speed: 1 };
+    const effect = {
+      getOptions: () => ({ ...options }),
+      setOptions: vi.fn((changes: Partial<typeof options>) => Object.assign(options, changes)),
+    };
+
+    new Tween(effect, { speed: 3 }, { duration: 1, easing: 'linear' }).update(0.5);
+    expect(effect.setOptions).toHaveBeenCalledWith({ speed: 2 });
+    expect(options.speed).toBe(2);
+  });
+
+  it('completes once, resolving and calling onComplete', async () => {
+    const onComplete = vi.fn();
+    const target = { value: 0 };
+    const tween = new Tween(target, { value: 1 }, { duration: 0.5, repeat: 1, onComplete });
+
+    expect(tween.getTotalDuration()).toBe(1);
+    expect(tween.update(0.6)).toBe(false);
+    expect(tween.update(0.6)).toBe(true);
+    expect(tween.update(0.6)).toBe(true);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(target.value).toBe(1);
+    await expect(tween.finished).resolves.toBeUndefined();
+  });
+
+  it('resolves without onComplete when stopped', async () => {
+    const onComplete = vi.fn();
+    const tween = new Tween({ value: 0 }, { value: 1 }, { onComplete });
+    tween.stop();
+
+    await tween;
+    expect(tween.isFinished()).toBe(true);
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('rejects values that cannot be interpolated', () => {
+    expect(() => new Tween({ value: 0 }, { value: 'red' } as never)).toThrow(
+      'Cannot tween "value"'
+    );
+  });
+});
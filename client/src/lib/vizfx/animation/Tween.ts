@@ -0,0 +1,196 @@
+/**
+ * Tween - Animates effect options (or plain object fields) over scene time
+ */
+
+import { Easing, EasingName, resolveEasing } from './easing';
+import {
+  AnimatableProperties,
+  AnimatableValue,
+  interpolate,
+  isAnimatable,
+  readValues,
+  writeValues,
+} from './values';
+
+export interface TweenOptions {
+  /** Seconds per play (default: 1) */
+  duration?: number;
+  /** Seconds to wait before starting (default: 0) */
+  delay?: number;
+  /** Easing curve or name (default: 'easeInOutCubic') */
+  easing?: Easing | EasingName;
+  /** Extra plays after the first; Infinity loops forever (default: 0) */
+  repeat?: number;
+  /** Play every other repeat backwards (default: false) */
+  yoyo?: boolean;
+  /** Called whenever values change, with eased progress */
+  onUpdate?: (progress: number) => void;
+  /** Called when the last play ends (not when stopped) */
+  onComplete?: () => void;
+}
+
+/**
+ * Anything VizFX advances with the scene clock
+ */
+export interface Animation {
+  /**
+   * Advance by an amount of scene time. Returns true once finished.
+   */
+  update(deltaTime: number): boolean;
+  /**
+   * Stop where it is. Pending promises resolve.
+   */
+  stop(): void;
+}
+
+/**
+ * Time into the current play for a looping animation, in seconds
+ */
+export function playTime(
+  time: number,
+  duration: number,
+  repeat: number,
+  yoyo: boolean
+): number {
+  if (duration <= 0) return 0;
+
+  const plays = Math.max(0, time) / duration;
+  let iteration = Math.floor(plays);
+  let position = plays - iteration;
+
+  if (iteration > repeat) {
+    iteration = repeat;
+    position = 1;
+  } else if (position === 0 && iteration > 0) {
+    // Landing exactly on a boundary ends the previous play
+    iteration -= 1;
+    position = 1;
+  }
+
+  if (yoyo && iteration % 2 === 1) {
+    position = 1 - position;
+  }
+
+  return position * duration;
+}
+
+export class Tween<T extends object = object>
+  implements Animation, PromiseLike<void>
+{
+  readonly target: T;
+  /** Animated property names */
+  readonly keys: readonly string[];
+  /** Resolves when the tween completes or is stopped */
+  readonly finished: Promise<void>;
+  private to: Record<string, AnimatableValue>;
+  private from: Record<string, AnimatableValue> | null = null;
+  private duration: number;
+  private delay: number;
+  private easing: Easing;
+  private repeat: number;
+  private yoyo: boolean;
+  private onUpdate: ((progress: number) => void) | null;
+  private onComplete: (() => void) | null;
+  private elapsed: number = 0;
+  private lastPosition: number = -1;
+  private done: boolean = false;
+  private resolve: () => void = () => {};
+
+  constructor(target: T, to: AnimatableProperties<T>, options: TweenOptions = {}) {
+    this.target = target;
+    this.to = to as Record<string, AnimatableValue>;
+    this.keys = Object.keys(this.to).filter(key => this.to[key] !== undefined);
+    this.duration = Math.max(0, options.duration ?? 1);
+    this.delay = Math.max(0, options.delay ?? 0);
+    this.easing = resolveEasing(options.easing ?? 'easeInOutCubic');
+    this.repeat = Math.max(0, options.repeat ?? 0);
+    this.yoyo = options.yoyo ?? false;
+    this.onUpdate = options.onUpdate ?? null;
+    this.onComplete = options.onComplete ?? null;
+    this.finished = new Promise(resolve => {
+      this.resolve = resolve;
+    });
+
+    // Fail now rather than inside the render loop
+    const current = readValues(target, this.keys);
+    for (const key of this.keys) {
+      if (!isAnimatable(current[key], this.to[key])) {
+        throw new Error(
+          `Cannot tween "${key}" from ${JSON.stringify(current[key])} to ${JSON.stringify(this.to[key])}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Length including delay and repeats, in seconds
+   */
+  getTotalDuration(): number {
+    return this.delay + this.duration * (this.repeat + 1);
+  }
+
+  update(deltaTime: number): boolean {
+    if (this.done) return true;
+
+    this.elapsed += deltaTime;
+    this.seek(this.elapsed);
+
+    if (this.elapsed >= this.getTotalDuration()) {
+      this.done = true;
+      this.onComplete?.();
+      this.resolve();
+    }
+
+    return this.done;
+  }
+
+  /**
+   * Show the state `time` seconds after the tween was created. Start values
+   * are read from the target when the delay first runs out.
+   */
+  seek(time: number): void {
+    if (time < this.delay && !this.from) return;
+    this.from ??= readValues(this.target, this.keys);
+
+    const position =
+      this.duration > 0
+        ? playTime(time - this.delay, this.duration, this.repeat, this.yoyo) /
+          this.duration
+        : 1;
+    if (position === this.lastPosition) return;
+    this.lastPosition = position;
+
+    const progress = this.easing(position);
+    const values: Record<string, AnimatableValue> = {};
+    for (const key of this.keys) {
+      values[key] = interpolate(this.from[key], this.to[key], progress);
+    }
+
+    writeValues(this.target, values);
+    this.onUpdate?.(progress);
+  }
+
+  /**
+   * Whether the tween has read its start values
+   */
+  hasStarted(): boolean {
+    return this.from !== null;
+  }
+
+  isFinished(): boolean {
+    return this.done;
+  }
+
+  stop(): void {
+    if (this.done) return;
+    this.done = true;
+    this.resolve();
+  }
+
+  then<R1 = void, R2 = never>(
+    onfulfilled?: ((value: void) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return this.finished.then(onfulfilled, onrejected);
+  }
+}
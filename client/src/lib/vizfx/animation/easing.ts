@@ -0,0 +1,38 @@
+/**
+ * Easing - Named easing curves for tweens and keyframes
+ */
+
+import {
+  easeInCubic,
+  easeInOutCubic,
+  easeOutCubic,
+  easeOutElastic,
+} from '../utils/math';
+
+/**
+ * Maps linear progress (0 to 1) to eased progress
+ */
+export type Easing = (t: number) => number;
+
+export const EASINGS = {
+  linear: (t: number) => t,
+  easeInCubic,
+  easeOutCubic,
+  easeInOutCubic,
+  easeOutElastic,
+};
+
+export type EasingName = keyof typeof EASINGS;
+
+/**
+ * Resolve an easing given by name or function
+ */
+export function resolveEasing(easing: Easing | EasingName): Easing {
+  if (typeof easing === 'function') return easing;
+
+  const resolved = EASINGS[easing];
+  if (!resolved) {
+    throw new Error(`Unknown easing: ${easing}`);
+  }
+  return resolved;
+}
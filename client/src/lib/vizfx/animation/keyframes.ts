@@ -0,0 +1,93 @@
+/**
+ * Keyframes - Piecewise animation of a value over progress from 0 to 1
+ */
+
+import { clamp } from '../utils/math';
+import { Easing, EasingName, resolveEasing } from './easing';
+import { AnimatableValue, interpolate, isAnimatable } from './values';
+
+export interface Keyframe<V = AnimatableValue> {
+  /** Position from 0 to 1 */
+  at: number;
+  value: V;
+  /** Easing towards the next keyframe (default: 'linear') */
+  easing?: Easing | EasingName;
+}
+
+/**
+ * Full keyframes, or just values spread evenly from 0 to 1
+ */
+export type KeyframeInput<V = AnimatableValue> =
+  | readonly Keyframe<V>[]
+  | readonly V[];
+
+interface ResolvedKeyframe {
+  at: number;
+  value: AnimatableValue;
+  easing: Easing;
+}
+
+export class KeyframeTrack {
+  private keyframes: ResolvedKeyframe[];
+
+  constructor(input: KeyframeInput, name: string = 'value') {
+    if (input.length === 0) {
+      throw new Error(`Keyframes for "${name}" are empty`);
+    }
+
+    const frames = input.map((frame, index): Keyframe =>
+      isKeyframe(frame)
+        ? frame
+        : {
+            at: input.length > 1 ? index / (input.length - 1) : 0,
+            value: frame as AnimatableValue,
+          }
+    );
+
+    this.keyframes = frames
+      .map(frame => ({
+        at: clamp(frame.at, 0, 1),
+        value: frame.value,
+        easing: resolveEasing(frame.easing ?? 'linear'),
+      }))
+      .sort((a, b) => a.at - b.at);
+
+    for (const frame of this.keyframes) {
+      if (!isAnimatable(this.keyframes[0].value, frame.value)) {
+        throw new Error(
+          `Keyframes for "${name}" mix incompatible values: ${JSON.stringify(this.keyframes[0].value)} and ${JSON.stringify(frame.value)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Value at a progress from 0 to 1. Before the first and after the last
+   * keyframe the value holds.
+   */
+  sample(progress: number): AnimatableValue {
+    const frames = this.keyframes;
+    if (progress <= frames[0].at) return frames[0].value;
+
+    for (let i = 1; i < frames.length; i++) {
+      const next = frames[i];
+      if (progress <= next.at) {
+        const previous = frames[i - 1];
+        const span = next.at - previous.at;
+        const t = span > 0 ? (progress - previous.at) / span : 1;
+        return interpolate(previous.value, next.value, previous.easing(t));
+      }
+    }
+
+    return frames[frames.length - 1].value;
+  }
+}
+
+function isKeyframe(value: unknown): value is Keyframe {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'at' in value &&
+    'value' in value
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * Animated values - Interpolation of numbers, vectors and colours, and
+ * reading/writing them on effects or plain objects
+ */
+
+import { Vec2, hexToRgb, lerp, rgbToHex } from '../utils/math';
+
+/**
+ * A value that can be animated: a number, a `{ x, y }` vector, a `#rrggbb`
+ * colour, or an array of those (e.g. GradientMesh colours)
+ */
+export type AnimatableValue =
+  | number
+  | string
+  | { x: number; y: number }
+  | readonly AnimatableValue[];
+
+/**
+ * Properties that can be animated on a target. Effects expose their
+ * options; other objects (e.g. a Layer) their own fields.
+ */
+export type AnimatableProperties<T> = T extends { getOptions(): infer O }
+  ? Partial<O>
+  : Partial<T>;
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Interpolate between two values of the same kind
+ */
+export function interpolate(
+  from: AnimatableValue,
+  to: AnimatableValue,
+  t: number
+): AnimatableValue {
+  if (typeof from === 'number' && typeof to === 'number') {
+    return lerp(from, to, t);
+  }
+
+  if (typeof from === 'string' && typeof to === 'string') {
+    const a = hexToRgb(from);
+    const b = hexToRgb(to);
+    return rgbToHex(lerp(a.r, b.r, t), lerp(a.g, b.g, t), lerp(a.b, b.b, t));
+  }
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    // Extra entries on either side snap at the end
+    return to.map((value, index) =>
+      index < from.length ? interpolate(from[index], value, t) : value
+    );
+  }
+
+  const a = from as { x: number; y: number };
+  const b = to as { x: number; y: number };
+  return new Vec2(lerp(a.x, b.x, t), lerp(a.y, b.y, t));
+}
+
+/**
+ * Whether two values can be interpolated with each other
+ */
+export function isAnimatable(from: unknown, to: unknown): boolean {
+  if (typeof from === 'number' && typeof to === 'number') return true;
+  if (typeof from === 'string' && typeof to === 'string') {
+    return COLOR_PATTERN.test(from) && COLOR_PATTERN.test(to);
+  }
+  if (Array.isArray(from) && Array.isArray(to)) {
+    return to.every((value, index) =>
+      index >= from.length ? true : isAnimatable(from[index], value)
+    );
+  }
+  return isVector(from) && isVector(to);
+}
+
+/**
+ * Read properties from an effect's options or an object's fields
+ */
+export function readValues(
+  target: object,
+  keys: readonly string[]
+): Record<string, AnimatableValue> {
+  const source = hasOptions(target)
+    ? (target.getOptions() as Record<string, unknown>)
+    : (target as Record<string, unknown>);
+
+  const values: Record<string, AnimatableValue> = {};
+  for (const key of keys) {
+    values[key] = source[key] as AnimatableValue;
+  }
+  return values;
+}
+
+/**
+ * Write properties through setOptions() when the target has it, otherwise
+ * directly onto its fields
+ */
+export function writeValues(
+  target: object,
+  values: Record<string, AnimatableValue>
+): void {
+  const { setOptions } = target as { setOptions?: (options: object) => void };
+  if (typeof setOptions === 'function') {
+    setOptions.call(target, values);
+  } else {
+    Object.assign(target, values);
+  }
+}
+
+function hasOptions(target: object): target is { getOptions(): object } {
+  return typeof (target as { getOptions?: unknown }).getOptions === 'function';
+}
+
+function isVector(value: unknown): value is { x: number; y: number } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Vec2).x === 'number' &&
+    typeof (value as Vec2).y === 'number'
+  );
+}
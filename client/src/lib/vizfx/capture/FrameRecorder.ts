@@ -0,0 +1,181 @@
+/**
+ * Frame Recorder - Exports a scene as an image sequence or WebM video by
+ * stepping its clock frame by frame
+ */
+
+import { VizFX } from '../core/VizFX';
+
+export interface FrameRecorderOptions {
+  /** Length of the recording in seconds of scene time */
+  duration: number;
+  /** Frames per second (default: 30) */
+  fps?: number;
+  /** Output size in pixels (default: current drawing buffer size) */
+  width?: number;
+  height?: number;
+  /** Scene time to start from (default: current clock time) */
+  startTime?: number;
+  /** Called after every frame with progress from 0 to 1 */
+  onProgress?: (progress: number) => void;
+}
+
+export interface RecordedFrame {
+  /** Zero-padded file name, e.g. `frame-0007.png` */
+  name: string;
+  blob: Blob;
+}
+
+export interface VideoRecordingOptions {
+  /** Container/codec (default: the best supported WebM type) */
+  mimeType?: string;
+  videoBitsPerSecond?: number;
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export class FrameRecorder {
+  private viz: VizFX;
+  private options: FrameRecorderOptions;
+  private cancelled: boolean = false;
+  private recording: boolean = false;
+
+  constructor(viz: VizFX, options: FrameRecorderOptions) {
+    this.viz = viz;
+    this.options = options;
+  }
+
+  /**
+   * Whether WebM recording is available in this browser
+   */
+  static isVideoSupported(): boolean {
+    return (
+      typeof MediaRecorder !== 'undefined' &&
+      typeof HTMLCanvasElement !== 'undefined' &&
+      'captureStream' in HTMLCanvasElement.prototype
+    );
+  }
+
+  /**
+   * Render every frame to a PNG. The names sort in frame order, so the
+   * result can be zipped or fed to ffmpeg as-is.
+   */
+  async recordSequence(
+    type: string = 'image/png',
+    quality?: number
+  ): Promise<RecordedFrame[]> {
+    const frames: RecordedFrame[] = [];
+    const extension = type.split('/')[1] ?? 'png';
+    const total = this.getFrameCount();
+    const digits = Math.max(4, String(total).length);
+
+    await this.run(async index => {
+      const blob = await this.viz.captureFrame(type, quality);
+      const number = String(index).padStart(digits, '0');
+      frames.push({ name: `frame-${number}.${extension}`, blob });
+    });
+
+    return frames;
+  }
+
+  /**
+   * Record the frames into a WebM video through MediaRecorder. Frames are
+   * paced in real time, so this takes about `duration` seconds.
+   */
+  async recordVideo(options: VideoRecordingOptions = {}): Promise<Blob> {
+    const canvas = this.viz.getCanvas();
+    if (!FrameRecorder.isVideoSupported() || !(canvas instanceof HTMLCanvasElement)) {
+      throw new Error('Video recording not supported');
+    }
+
+    const fps = this.options.fps ?? 30;
+    const mimeType =
+      options.mimeType ??
+      WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ??
+      'video/webm';
+
+    // Frames are pushed manually so each one is a finished render
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: options.videoBitsPerSecond,
+    });
+
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    recorder.start();
+
+    try {
+      await this.run(async () => {
+        track.requestFrame();
+        await wait(1000 / fps);
+      });
+    } finally {
+      recorder.stop();
+      track.stop();
+    }
+
+    await stopped;
+    return new Blob(chunks, { type: mimeType });
+  }
+
+  /**
+   * Stop after the current frame
+   */
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  private getFrameCount(): number {
+    return Math.max(1, Math.round(this.options.duration * (this.options.fps ?? 30)));
+  }
+
+  /**
+   * Take over the scene, step it frame by frame and restore it afterwards
+   */
+  private async run(onFrame: (index: number) => Promise<void>): Promise<void> {
+    if (this.recording) {
+      throw new Error('FrameRecorder is already recording');
+    }
+
+    const viz = this.viz;
+    const clock = viz.getClock();
+    const canvas = viz.getCanvas();
+    const fps = this.options.fps ?? 30;
+    const total = this.getFrameCount();
+    const wasStarted = viz.isStarted();
+
+    this.recording = true;
+    this.cancelled = false;
+    viz.stop();
+    viz.setRenderSize(
+      this.options.width ?? canvas.width,
+      this.options.height ?? canvas.height
+    );
+    if (this.options.startTime !== undefined) {
+      clock.seek(this.options.startTime);
+    }
+
+    try {
+      for (let i = 0; i < total && !this.cancelled; i++) {
+        viz.step(i === 0 ? 0 : 1 / fps);
+        await onFrame(i);
+        this.options.onProgress?.((i + 1) / total);
+      }
+    } finally {
+      viz.setRenderSize(null);
+      if (wasStarted) viz.start();
+      this.recording = false;
+    }
+  }
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
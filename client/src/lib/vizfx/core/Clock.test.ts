@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Clock } from './Clock';
+
+/**
+ * Run one clock update and collect its steps
+ */
+function steps(clock: Clock, realDeltaTime: number): Array<[number, number]> {
+  const calls: Array<[number, number]> = [];
+  clock.update(realDeltaTime, (time, deltaTime) => calls.push([time, deltaTime]));
+  return calls;
+}
+
+describe('Clock', () => {
+  it('advances by the frame time, scaled and capped', () => {
+    const clock = new Clock({ timeScale: 2, maxDeltaTime: 0.1 });
+    expect(steps(clock, 0.02)).toEqual([[0.04, 0.04]]);
+    // A long frame counts as maxDeltaTime
+    expect(steps(clock, 1)[0][1]).toBeCloseTo(0.2, 10);
+    expect(clock.getTime()).toBeCloseTo(0.24, 10);
+  });
+
+  it('runs fixed steps and carries the remainder', () => {
+    const clock = new Clock({ fixedTimeStep: 0.01 });
+    expect(steps(clock, 0.025)).toHaveLength(2);
+    expect(steps(clock, 0.005)).toHaveLength(1);
+    expect(clock.getTime()).toBeCloseTo(0.03, 10);
+  });
+
+  it('stands still while paused', () => {
+    const clock = new Clock();
+    clock.pause();
+    expect(steps(clock, 0.016)).toEqual([]);
+    expect(clock.getTime()).toBe(0);
+
+    clock.resume();
+    expect(steps(clock, 0.016)).toHaveLength(1);
+  });
+
+  it('reports a seek once with a zero step, even while paused', () => {
+    const clock = new Clock();
+    steps(clock, 0.05);
+    clock.pause().seek(3);
+
+    expect(steps(clock, 0.016)).toEqual([[3, 0]]);
+    expect(steps(clock, 0.016)).toEqual([]);
+    expect(clock.getTime()).toBe(3);
+  });
+
+  it('clamps seeks to zero and drops the fixed step remainder', () => {
+    const clock = new Clock({ fixedTimeStep: 0.01 });
+    steps(clock, 0.015);
+    clock.seek(-1);
+
+    expect(steps(clock, 0.005)).toEqual([[0, 0]]);
+    expect(clock.getTime()).toBe(0);
+  });
+
+  it('advance() ignores pause and time scale', () => {
+    const clock = new Clock({ timeScale: 0.5 });
+    clock.pause();
+    clock.advance(1, () => {});
+    expect(clock.getTime()).toBe(1);
+  });
+});
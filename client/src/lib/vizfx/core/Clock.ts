@@ -0,0 +1,128 @@
+/**
+ * Clock - The single source of time for a VizFX scene
+ */
+
+export interface ClockOptions {
+  /** Playback speed multiplier (default: 1) */
+  timeScale?: number;
+  /**
+   * Advance in fixed steps of this many seconds instead of per frame, so a
+   * scene evolves identically regardless of frame rate (default: null)
+   */
+  fixedTimeStep?: number | null;
+  /** Longest real frame time accepted, in seconds (default: 0.1) */
+  maxDeltaTime?: number;
+}
+
+/**
+ * Called once per simulation step
+ * @param time - Total elapsed scene time in seconds
+ * @param deltaTime - Scene time covered by this step in seconds
+ */
+export type ClockStepCallback = (time: number, deltaTime: number) => void;
+
+/**
+ * Upper bound on fixed steps per update, so a slow frame can't spiral
+ */
+const MAX_STEPS_PER_UPDATE = 8;
+
+export class Clock {
+  timeScale: number;
+  fixedTimeStep: number | null;
+  maxDeltaTime: number;
+  private time: number = 0;
+  private accumulator: number = 0;
+  private paused: boolean = false;
+  private needsSync: boolean = false;
+
+  constructor(options: ClockOptions = {}) {
+    this.timeScale = options.timeScale ?? 1;
+    this.fixedTimeStep = options.fixedTimeStep ?? null;
+    this.maxDeltaTime = options.maxDeltaTime ?? 0.1;
+  }
+
+  /**
+   * Advance by a real (wall-clock) frame time and run the resulting steps
+   */
+  update(realDeltaTime: number, step: ClockStepCallback): void {
+    // After a seek, let effects observe the new time once even when paused
+    if (this.needsSync) {
+      this.needsSync = false;
+      step(this.time, 0);
+    }
+
+    if (this.paused) return;
+
+    const delta =
+      Math.min(Math.max(realDeltaTime, 0), this.maxDeltaTime) * this.timeScale;
+    this.advance(delta, step);
+  }
+
+  /**
+   * Advance by an exact amount of scene time, ignoring pause and time scale.
+   * Useful for stepping frame by frame (e.g. when recording).
+   */
+  advance(deltaTime: number, step: ClockStepCallback): void {
+    if (this.fixedTimeStep === null || this.fixedTimeStep <= 0) {
+      this.time += deltaTime;
+      step(this.time, deltaTime);
+      return;
+    }
+
+    this.accumulator += deltaTime;
+
+    let steps = 0;
+    while (
+      this.accumulator >= this.fixedTimeStep &&
+      steps < MAX_STEPS_PER_UPDATE
+    ) {
+      this.time += this.fixedTimeStep;
+      this.accumulator -= this.fixedTimeStep;
+      step(this.time, this.fixedTimeStep);
+      steps++;
+    }
+
+    // Drop time we couldn't catch up on rather than carry the debt forward
+    if (steps === MAX_STEPS_PER_UPDATE) {
+      this.accumulator = 0;
+    }
+  }
+
+  /**
+   * Freeze scene time. Rendering continues, so seek() still shows results.
+   */
+  pause(): Clock {
+    this.paused = true;
+    return this;
+  }
+
+  /**
+   * Continue after pause()
+   */
+  resume(): Clock {
+    this.paused = false;
+    return this;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Jump to a scene time in seconds. Time-based effects show that moment
+   * directly; simulations continue from their current state.
+   */
+  seek(time: number): Clock {
+    this.time = Math.max(0, time);
+    this.accumulator = 0;
+    this.needsSync = true;
+    return this;
+  }
+
+  /**
+   * Total elapsed scene time in seconds
+   */
+  getTime(): number {
+    return this.time;
+  }
+}
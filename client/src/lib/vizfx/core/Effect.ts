@@ -1,7 +1,24 @@
+import type { QualityLevel } from './QualityGovernor';
+import type { ReducedMotionPolicy } from './motion';
+import type { Canvas2DContext } from '../utils/canvas2d';
+import type { InteractionManager } from '../utils/interaction';
+
 /**
  * Base interface for all VizFX effects
  */
 export interface Effect {
+  /**
+   * Optional: registered type name (e.g. 'gradient-mesh'), used by
+   * VizFX.toJSON() together with getOptions()
+   */
+  readonly type?: string;
+
+  /**
+   * Optional: behaviour while the user prefers reduced motion, unless the
+   * layer overrides it (default: 'static')
+   */
+  readonly reducedMotion?: ReducedMotionPolicy;
+
   /**
    * Initialize the effect (create buffers, shaders, etc.)
    */
@@ -28,11 +45,56 @@ export interface Effect {
    * Clean up resources
    */
   destroy(gl: WebGLRenderingContext): void;
+
+  /**
+   * Optional: prepare for drawing with Canvas 2D. On the fallback renderer
+   * this is called instead of init(), and destroy() is not called.
+   */
+  init2D?(ctx: Canvas2DContext): void;
+
+  /**
+   * Optional: draw with Canvas 2D when WebGL is unavailable
+   */
+  render2D?(ctx: Canvas2DContext): void;
+
+  /**
+   * Optional: a CSS background image standing in for the effect on the
+   * fallback renderer, for effects without render2D()
+   */
+  getFallbackBackground?(): string;
+
+  /**
+   * Optional: scale work down (or back up) when VizFX changes quality level
+   */
+  setQuality?(level: QualityLevel): void;
+
+  /**
+   * Optional: receive the pointer source when added to a VizFX instance,
+   * and null when removed
+   */
+  setInteraction?(interaction: InteractionManager | null): void;
+
+  /**
+   * Optional: current options as plain data, for serialization
+   */
+  getOptions?(): object;
+
+  /**
+   * Optional: change some options while running
+   */
+  setOptions?(options: object): void;
+
+  /**
+   * Optional: whether VizFX should update and draw the effect. A disabled
+   * effect keeps its state and picks up where it left off.
+   */
+  isEnabled?(): boolean;
 }
 
 /**
  * Base effect options
  */
 export interface EffectOptions {
+  /** Update and draw the effect (default: true) */
   enabled?: boolean;
 }
@@ -0,0 +1,225 @@
+/**
+ * Layer - Compositing settings for an effect in the scene
+ */
+
+import { Effect } from './Effect';
+import { ReducedMotionPolicy } from './motion';
+import {
+  RenderTarget,
+  bindRenderTarget,
+  createRenderTarget,
+  deleteRenderTarget,
+  resizeRenderTarget,
+} from '../utils/framebuffer';
+import { basicVertexShader, createProgram, createQuad } from '../utils/shaders';
+
+export type BlendMode = 'normal' | 'additive' | 'multiply' | 'screen';
+
+export const BLEND_MODES: readonly BlendMode[] = [
+  'normal',
+  'additive',
+  'multiply',
+  'screen',
+];
+
+export interface LayerOptions {
+  /** Higher layers draw on top; ties keep insertion order (default: 0) */
+  zIndex?: number;
+  /** Layer opacity from 0 to 1 (default: 1) */
+  opacity?: number;
+  /** Hidden layers keep updating but are not drawn (default: true) */
+  visible?: boolean;
+  blendMode?: BlendMode;
+  /**
+   * Behaviour while motion is reduced; null uses the effect's own default
+   * (default: null)
+   */
+  reducedMotion?: ReducedMotionPolicy | null;
+}
+
+export class Layer {
+  readonly effect: Effect;
+  zIndex: number;
+  opacity: number;
+  visible: boolean;
+  blendMode: BlendMode;
+  reducedMotion: ReducedMotionPolicy | null;
+
+  constructor(effect: Effect, options: LayerOptions = {}) {
+    this.effect = effect;
+    this.zIndex = options.zIndex ?? 0;
+    this.opacity = options.opacity ?? 1;
+    this.visible = options.visible ?? true;
+    this.blendMode = options.blendMode ?? 'normal';
+    this.reducedMotion = options.reducedMotion ?? null;
+  }
+
+  /**
+   * Update several layer settings at once
+   */
+  set(options: LayerOptions): Layer {
+    if (options.zIndex !== undefined) this.zIndex = options.zIndex;
+    if (options.opacity !== undefined) this.opacity = options.opacity;
+    if (options.visible !== undefined) this.visible = options.visible;
+    if (options.blendMode !== undefined) this.blendMode = options.blendMode;
+    if (options.reducedMotion !== undefined) this.reducedMotion = options.reducedMotion;
+    return this;
+  }
+}
+
+/**
+ * Modes whose blend function can't weight straight-alpha colour by alpha,
+ * so they only work with premultiplied sources
+ */
+const PREMULTIPLIED_MODES: readonly BlendMode[] = ['multiply', 'screen'];
+
+/**
+ * Set the blend function for a blend mode.
+ * `premultiplied` is for sources whose colour is already multiplied by alpha.
+ * Multiply and screen assume premultiplied colour either way; draw straight
+ * alpha through an offscreen target first (LayerCompositor does).
+ * Alpha always accumulates as coverage so offscreen targets stay correct.
+ */
+export function applyBlendMode(
+  gl: WebGLRenderingContext,
+  mode: BlendMode,
+  premultiplied: boolean = false
+): void {
+  const srcAlpha = premultiplied ? gl.ONE : gl.SRC_ALPHA;
+
+  switch (mode) {
+    case 'additive':
+      gl.blendFuncSeparate(srcAlpha, gl.ONE, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+      break;
+    case 'multiply':
+      gl.blendFuncSeparate(
+        gl.DST_COLOR,
+        gl.ONE_MINUS_SRC_ALPHA,
+        gl.ONE,
+        gl.ONE_MINUS_SRC_ALPHA
+      );
+      break;
+    case 'screen':
+      gl.blendFuncSeparate(
+        gl.ONE,
+        gl.ONE_MINUS_SRC_COLOR,
+        gl.ONE,
+        gl.ONE_MINUS_SRC_ALPHA
+      );
+      break;
+    default:
+      gl.blendFuncSeparate(
+        srcAlpha,
+        gl.ONE_MINUS_SRC_ALPHA,
+        gl.ONE,
+        gl.ONE_MINUS_SRC_ALPHA
+      );
+  }
+}
+
+const compositeShader = `
+  precision mediump float;
+
+  uniform sampler2D u_texture;
+  uniform float u_opacity;
+
+  varying vec2 v_texCoord;
+
+  void main() {
+    gl_FragColor = texture2D(u_texture, v_texCoord) * u_opacity;
+  }
+`;
+
+/**
+ * Draws layers onto the scene. Opaque normal and additive layers render
+ * directly with their blend mode; translucent layers render into an
+ * offscreen texture first so the opacity applies to the layer as a whole
+ * rather than per draw call. Multiply and screen layers always go offscreen,
+ * since they need premultiplied colour.
+ */
+export class LayerCompositor {
+  private program: WebGLProgram | null = null;
+  private quad: WebGLBuffer | null = null;
+  private target: RenderTarget | null = null;
+
+  /**
+   * Create GPU resources. Called by VizFX, including after a context restore.
+   */
+  init(gl: WebGLRenderingContext): void {
+    this.program = createProgram(gl, basicVertexShader, compositeShader);
+    this.quad = createQuad(gl);
+    this.target = createRenderTarget(gl, 1, 1);
+  }
+
+  /**
+   * Render a layer into `destination` (the canvas when null)
+   */
+  render(
+    gl: WebGLRenderingContext,
+    layer: Layer,
+    destination: RenderTarget | null,
+    draw: () => void
+  ): void {
+    if (!layer.visible || layer.opacity <= 0) return;
+
+    const direct = layer.opacity >= 1 && !PREMULTIPLIED_MODES.includes(layer.blendMode);
+    if (direct || !this.program || !this.quad || !this.target) {
+      applyBlendMode(gl, layer.blendMode);
+      draw();
+      applyBlendMode(gl, 'normal');
+      return;
+    }
+
+    // Draw the layer on its own, producing premultiplied colour
+    const width = destination ? destination.width : gl.drawingBufferWidth;
+    const height = destination ? destination.height : gl.drawingBufferHeight;
+    resizeRenderTarget(gl, this.target, width, height);
+    bindRenderTarget(gl, this.target);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    applyBlendMode(gl, 'normal');
+    draw();
+
+    // Composite it with opacity and the layer's blend mode
+    bindRenderTarget(gl, destination);
+    applyBlendMode(gl, layer.blendMode, true);
+
+    gl.useProgram(this.program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quad);
+
+    const positionLoc = gl.getAttribLocation(this.program, 'a_position');
+    const texCoordLoc = gl.getAttribLocation(this.program, 'a_texCoord');
+
+    gl.enableVertexAttribArray(positionLoc);
+    gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 16, 0);
+
+    gl.enableVertexAttribArray(texCoordLoc);
+    gl.vertexAttribPointer(texCoordLoc, 2, gl.FLOAT, false, 16, 8);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.target.texture);
+    gl.uniform1i(gl.getUniformLocation(this.program, 'u_texture'), 0);
+    gl.uniform1f(gl.getUniformLocation(this.program, 'u_opacity'), layer.opacity);
+
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+
+    applyBlendMode(gl, 'normal');
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(gl: WebGLRenderingContext): void {
+    if (this.program) {
+      gl.deleteProgram(this.program);
+      this.program = null;
+    }
+    if (this.quad) {
+      gl.deleteBuffer(this.quad);
+      this.quad = null;
+    }
+    if (this.target) {
+      deleteRenderTarget(gl, this.target);
+      this.target = null;
+    }
+  }
+}
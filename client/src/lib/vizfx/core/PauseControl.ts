@@ -0,0 +1,89 @@
+/**
+ * Pause control - Accessible button that pauses and plays a VizFX scene,
+ * for WCAG 2.2.2 (moving content needs a way to pause it)
+ */
+
+import type { VizFX } from './VizFX';
+
+export interface PauseControlOptions {
+  /** Element (or selector) to add the button to (default: the canvas's parent) */
+  container?: HTMLElement | string;
+  /** Label while playing (default: 'Pause animation') */
+  pauseLabel?: string;
+  /** Label while paused (default: 'Play animation') */
+  playLabel?: string;
+  /** Class for styling the button (default: 'vizfx-pause-control') */
+  className?: string;
+}
+
+export class PauseControl {
+  /** The button; style it or move it as you like */
+  readonly element: HTMLButtonElement;
+  private viz: VizFX;
+  private pauseLabel: string;
+  private playLabel: string;
+
+  constructor(viz: VizFX, options: PauseControlOptions = {}) {
+    this.viz = viz;
+    this.pauseLabel = options.pauseLabel ?? 'Pause animation';
+    this.playLabel = options.playLabel ?? 'Play animation';
+
+    let container: Element | null;
+    if (typeof options.container === 'string') {
+      container = document.querySelector(options.container);
+      if (!container) {
+        throw new Error(`Pause control container not found: ${options.container}`);
+      }
+    } else {
+      const canvas = viz.getCanvas();
+      container =
+        options.container ??
+        (canvas instanceof HTMLCanvasElement ? canvas.parentElement : null);
+      if (!container) {
+        throw new Error('Pause control needs a container for offscreen canvases');
+      }
+    }
+
+    // A native button is focusable and works with Enter and Space
+    this.element = document.createElement('button');
+    this.element.type = 'button';
+    this.element.className = options.className ?? 'vizfx-pause-control';
+    this.element.addEventListener('click', this.toggle);
+    container.appendChild(this.element);
+
+    viz.on('playstatechange', this.handlePlayStateChange);
+    this.update();
+  }
+
+  /**
+   * Pause when playing, play when paused
+   */
+  toggle = (): void => {
+    if (this.viz.isStarted()) {
+      this.viz.stop();
+    } else {
+      this.viz.start();
+    }
+  };
+
+  private handlePlayStateChange = (): void => {
+    this.update();
+  };
+
+  /**
+   * The label names the action, so screen readers announce what a press
+   * will do
+   */
+  private update(): void {
+    this.element.textContent = this.viz.isStarted() ? this.pauseLabel : this.playLabel;
+  }
+
+  /**
+   * Remove the button. The scene keeps its current play state.
+   */
+  destroy(): void {
+    this.viz.off('playstatechange', this.handlePlayStateChange);
+    this.element.removeEventListener('click', this.toggle);
+    this.element.remove();
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { QualityGovernor } from './QualityGovernor';
+
+/**
+ * Feed frames of a fixed length until the governor changes level
+ */
+function runUntilChange(governor: QualityGovernor, frameTime: number, maxFrames = 1000) {
+  for (let i = 0; i < maxFrames; i++) {
+    const change = governor.sample(frameTime);
+    if (change) return change;
+  }
+  return null;
+}
+
+describe('QualityGovernor', () => {
+  it('steps down when frames run slow and reports the measured fps', () => {
+    const governor = new QualityGovernor({ targetFps: 60 });
+    const change = runUntilChange(governor, 1 / 30);
+
+    expect(change?.level).toBe('medium');
+    expect(change?.fps).toBeCloseTo(30, 5);
+    expect(governor.getLevel()).toBe('medium');
+  });
+
+  it('steps back up when frames are on target', () => {
+    const governor = new QualityGovernor({ targetFps: 60 });
+    governor.setLevel('low');
+    const change = runUntilChange(governor, 1 / 60);
+
+    expect(change?.level).toBe('medium');
+    expect(change?.fps).toBeCloseTo(60, 5);
+  });
+
+  it('stays put within the target band', () => {
+    const governor = new QualityGovernor({ targetFps: 60 });
+    expect(runUntilChange(governor, 1 / 55, 600)).toBeNull();
+    expect(governor.getLevel()).toBe('high');
+  });
+
+  it('ignores hitches', () => {
+    const governor = new QualityGovernor({ targetFps: 60 });
+    expect(runUntilChange(governor, 1, 100)).toBeNull();
+    expect(governor.getFps()).toBe(0);
+  });
+
+  it('does not go below low', () => {
+    const governor = new QualityGovernor({ targetFps: 60 });
+    governor.setLevel('low');
+    expect(runUntilChange(governor, 1 / 20, 600)).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Quality governor - Watches frame times and steps quality to hold a target
+ * frame rate
+ */
+
+export type QualityLevel = 'high' | 'medium' | 'low';
+
+/**
+ * Quality levels from best to cheapest
+ */
+export const QUALITY_LEVELS: readonly QualityLevel[] = ['high', 'medium', 'low'];
+
+/**
+ * Drawing buffer resolution relative to the configured DPR at each level
+ */
+export const QUALITY_DPR_SCALE: Record<QualityLevel, number> = {
+  high: 1,
+  medium: 0.75,
+  low: 0.5,
+};
+
+/**
+ * Suggested share of particles/detail effects keep at each level
+ */
+export const QUALITY_DETAIL_SCALE: Record<QualityLevel, number> = {
+  high: 1,
+  medium: 0.6,
+  low: 0.35,
+};
+
+export interface QualityGovernorOptions {
+  targetFps: number;
+  /** Seconds of slow frames before stepping down (default: 1) */
+  downgradeDelay?: number;
+  /** Seconds of on-target frames before stepping back up (default: 4) */
+  upgradeDelay?: number;
+}
+
+/**
+ * A level change made by the governor
+ */
+export interface QualityChange {
+  level: QualityLevel;
+  /** Average frame rate that triggered the change */
+  fps: number;
+}
+
+/**
+ * Frames longer than this are hitches (tab switches, GC), not load
+ */
+const MAX_SAMPLE = 0.25;
+
+export class QualityGovernor {
+  private targetFrameTime: number;
+  private downgradeDelay: number;
+  private upgradeDelay: number;
+  private level: QualityLevel = 'high';
+  private samples: number[] = [];
+  private sampleSum: number = 0;
+  private slowTime: number = 0;
+  private fastTime: number = 0;
+  private maxSamples: number;
+
+  constructor(options: QualityGovernorOptions) {
+    this.targetFrameTime = 1 / options.targetFps;
+    this.downgradeDelay = options.downgradeDelay ?? 1;
+    this.upgradeDelay = options.upgradeDelay ?? 4;
+    // Roughly half a second of frames at the target rate
+    this.maxSamples = Math.max(10, Math.round(options.targetFps / 2));
+  }
+
+  /**
+   * Record a frame. Returns the new level and the frame rate behind it when
+   * the level changes, otherwise null.
+   */
+  sample(deltaTime: number): QualityChange | null {
+    if (deltaTime <= 0 || deltaTime > MAX_SAMPLE) return null;
+
+    this.samples.push(deltaTime);
+    this.sampleSum += deltaTime;
+    if (this.samples.length > this.maxSamples) {
+      this.sampleSum -= this.samples.shift()!;
+    }
+    if (this.samples.length < this.maxSamples) return null;
+
+    const average = this.getAverageFrameTime();
+
+    // Slow: more than 20% over budget. On target: within 5% of budget.
+    if (average > this.targetFrameTime * 1.2) {
+      this.slowTime += deltaTime;
+      this.fastTime = 0;
+    } else if (average < this.targetFrameTime * 1.05) {
+      this.fastTime += deltaTime;
+      this.slowTime = 0;
+    } else {
+      this.slowTime = 0;
+      this.fastTime = 0;
+    }
+
+    const index = QUALITY_LEVELS.indexOf(this.level);
+
+    if (this.slowTime >= this.downgradeDelay && index < QUALITY_LEVELS.length - 1) {
+      return this.changeLevel(QUALITY_LEVELS[index + 1]);
+    }
+
+    if (this.fastTime >= this.upgradeDelay && index > 0) {
+      // Back off further next time so we don't bounce between two levels
+      this.upgradeDelay *= 2;
+      return this.changeLevel(QUALITY_LEVELS[index - 1]);
+    }
+
+    return null;
+  }
+
+  private changeLevel(level: QualityLevel): QualityChange {
+    // Read the frame rate before the history is cleared
+    const fps = this.getFps();
+    this.level = level;
+    this.reset();
+    return { level, fps };
+  }
+
+  /**
+   * Clear the frame history (e.g. after a pause)
+   */
+  reset(): void {
+    this.samples = [];
+    this.sampleSum = 0;
+    this.slowTime = 0;
+    this.fastTime = 0;
+  }
+
+  /**
+   * Rolling average frame time in seconds
+   */
+  getAverageFrameTime(): number {
+    return this.samples.length > 0 ? this.sampleSum / this.samples.length : 0;
+  }
+
+  /**
+   * Rolling average frames per second
+   */
+  getFps(): number {
+    const average = this.getAverageFrameTime();
+    return average > 0 ? 1 / average : 0;
+  }
+
+  getLevel(): QualityLevel {
+    return this.level;
+  }
+
+  /**
+   * Force a level, e.g. when the application changes quality manually
+   */
+  setLevel(level: QualityLevel): void {
+    this.level = level;
+    this.reset();
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * Frame stats - Frame times, per-effect CPU time and GL upload counters for
+ * profiling a scene
+ */
+
+import type { Effect } from './Effect';
+
+/**
+ * Frames kept for averages and percentiles (about two seconds at 60fps)
+ */
+const SAMPLE_FRAMES = 120;
+
+/**
+ * Distribution of a time over the sampled frames, in milliseconds
+ */
+export interface TimingStats {
+  average: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface EffectStats {
+  /** Registered type of the effect, or 'custom' */
+  type: string;
+  /** Average CPU time per frame spent in update(), in milliseconds */
+  updateTime: number;
+  /** Average CPU time per frame spent in render() or render2D(), in milliseconds */
+  renderTime: number;
+}
+
+/**
+ * Snapshot returned by VizFX.getStats(). Counters are per frame, averaged
+ * over the sampled frames.
+ */
+export interface VizFXStats {
+  fps: number;
+  /** Time between frames */
+  frameTime: TimingStats;
+  /**
+   * CPU time spent updating and rendering each frame. GPU work runs
+   * asynchronously and isn't included.
+   */
+  cpuTime: TimingStats;
+  drawCalls: number;
+  /** Vertices drawn from buffer data uploaded during the frame */
+  verticesUploaded: number;
+  /** Bytes passed to bufferData()/bufferSubData() */
+  bytesUploaded: number;
+  /** Layers in draw order */
+  effects: EffectStats[];
+  /** Number of frames the numbers are based on */
+  frames: number;
+}
+
+/**
+ * Rolling window of per-frame values
+ */
+class SampleWindow {
+  private values: number[] = [];
+  private sum: number = 0;
+
+  push(value: number): void {
+    this.values.push(value);
+    this.sum += value;
+    if (this.values.length > SAMPLE_FRAMES) {
+      this.sum -= this.values.shift()!;
+    }
+  }
+
+  get size(): number {
+    return this.values.length;
+  }
+
+  average(): number {
+    return this.values.length > 0 ? this.sum / this.values.length : 0;
+  }
+
+  timing(): TimingStats {
+    const sorted = [...this.values].sort((a, b) => a - b);
+    const at = (share: number): number =>
+      sorted.length > 0
+        ? sorted[Math.min(sorted.length - 1, Math.floor(share * sorted.length))]
+        : 0;
+
+    return {
+      average: this.average(),
+      p50: at(0.5),
+      p95: at(0.95),
+      p99: at(0.99),
+      max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+    };
+  }
+}
+
+interface EffectSamples {
+  update: SampleWindow;
+  render: SampleWindow;
+  frameUpdate: number;
+  frameRender: number;
+}
+
+/**
+ * GL methods replaced while counting
+ */
+const INSTRUMENTED_METHODS = [
+  'drawArrays',
+  'drawElements',
+  'drawArraysInstanced',
+  'drawElementsInstanced',
+  'bufferData',
+  'bufferSubData',
+] as const;
+
+export class StatsCollector {
+  private frameTimes = new SampleWindow();
+  private cpuTimes = new SampleWindow();
+  private drawCalls = new SampleWindow();
+  private verticesUploaded = new SampleWindow();
+  private bytesUploaded = new SampleWindow();
+  private effects = new Map<Effect, EffectSamples>();
+  private gl: WebGLRenderingContext | null = null;
+  private inFrame: boolean = false;
+  private frameStart: number = 0;
+  private frameDrawCalls: number = 0;
+  private frameVertices: number = 0;
+  private frameBytes: number = 0;
+  /** Vertex data was uploaded since the last draw call */
+  private pendingUpload: boolean = false;
+
+  /**
+   * Count draw calls and uploads on a context. The methods are wrapped on
+   * the context object itself, so effects need no changes.
+   */
+  instrument(gl: WebGLRenderingContext): void {
+    if (this.gl) return;
+    this.gl = gl;
+
+    const context = gl as unknown as Record<string, unknown>;
+    const original = (name: (typeof INSTRUMENTED_METHODS)[number]) => {
+      const method = context[name] as ((...args: unknown[]) => void) | undefined;
+      return method ? (...args: unknown[]) => method.apply(gl, args) : null;
+    };
+
+    const drawArrays = original('drawArrays')!;
+    context.drawArrays = (mode: number, first: number, count: number) => {
+      this.countDraw(count);
+      drawArrays(mode, first, count);
+    };
+
+    const drawElements = original('drawElements')!;
+    context.drawElements = (mode: number, count: number, type: number, offset: number) => {
+      this.countDraw(count);
+      drawElements(mode, count, type, offset);
+    };
+
+    const drawArraysInstanced = original('drawArraysInstanced');
+    if (drawArraysInstanced) {
+      context.drawArraysInstanced = (
+        mode: number,
+        first: number,
+        count: number,
+        instances: number
+      ) => {
+        this.countDraw(count * instances);
+        drawArraysInstanced(mode, first, count, instances);
+      };
+    }
+
+    const drawElementsInstanced = original('drawElementsInstanced');
+    if (drawElementsInstanced) {
+      context.drawElementsInstanced = (
+        mode: number,
+        count: number,
+        type: number,
+        offset: number,
+        instances: number
+      ) => {
+        this.countDraw(count * instances);
+        drawElementsInstanced(mode, count, type, offset, instances);
+      };
+    }
+
+    const bufferData = original('bufferData')!;
+    context.bufferData = (target: number, data: number | BufferSource | null, usage: number) => {
+      this.countUpload(target, typeof data === 'number' ? data : data?.byteLength ?? 0);
+      bufferData(target, data, usage);
+    };
+
+    const bufferSubData = original('bufferSubData')!;
+    context.bufferSubData = (target: number, offset: number, data: BufferSource) => {
+      this.countUpload(target, data.byteLength);
+      bufferSubData(target, offset, data);
+    };
+  }
+
+  /**
+   * Restore the context's own methods
+   */
+  uninstrument(): void {
+    if (!this.gl) return;
+
+    const context = this.gl as unknown as Record<string, unknown>;
+    for (const name of INSTRUMENTED_METHODS) {
+      delete context[name];
+    }
+    this.gl = null;
+  }
+
+  private countDraw(vertices: number): void {
+    if (!this.inFrame) return;
+
+    this.frameDrawCalls++;
+    if (this.pendingUpload) {
+      this.frameVertices += vertices;
+      this.pendingUpload = false;
+    }
+  }
+
+  private countUpload(target: number, bytes: number): void {
+    // Resources created outside the loop (e.g. in init) aren't frame cost
+    if (!this.inFrame) return;
+
+    this.frameBytes += bytes;
+    if (target === this.gl?.ARRAY_BUFFER) {
+      this.pendingUpload = true;
+    }
+  }
+
+  /**
+   * Start measuring a frame. `deltaTime` is the time since the previous
+   * frame in seconds.
+   */
+  beginFrame(deltaTime: number): void {
+    if (deltaTime > 0) {
+      this.frameTimes.push(deltaTime * 1000);
+    }
+
+    this.inFrame = true;
+    this.frameStart = performance.now();
+    this.frameDrawCalls = 0;
+    this.frameVertices = 0;
+    this.frameBytes = 0;
+    this.pendingUpload = false;
+  }
+
+  endFrame(): void {
+    if (!this.inFrame) return;
+    this.inFrame = false;
+
+    this.cpuTimes.push(performance.now() - this.frameStart);
+    this.drawCalls.push(this.frameDrawCalls);
+    this.verticesUploaded.push(this.frameVertices);
+    this.bytesUploaded.push(this.frameBytes);
+
+    this.effects.forEach(samples => {
+      samples.update.push(samples.frameUpdate);
+      samples.render.push(samples.frameRender);
+      samples.frameUpdate = 0;
+      samples.frameRender = 0;
+    });
+  }
+
+  /**
+   * Add time an effect spent in update(). Fixed time steps may update an
+   * effect several times per frame.
+   */
+  recordUpdate(effect: Effect, milliseconds: number): void {
+    if (this.inFrame) this.getSamples(effect).frameUpdate += milliseconds;
+  }
+
+  recordRender(effect: Effect, milliseconds: number): void {
+    if (this.inFrame) this.getSamples(effect).frameRender += milliseconds;
+  }
+
+  private getSamples(effect: Effect): EffectSamples {
+    let samples = this.effects.get(effect);
+    if (!samples) {
+      samples = {
+        update: new SampleWindow(),
+        render: new SampleWindow(),
+        frameUpdate: 0,
+        frameRender: 0,
+      };
+      this.effects.set(effect, samples);
+    }
+    return samples;
+  }
+
+  /**
+   * Drop the samples of an effect that left the scene
+   */
+  forget(effect: Effect): void {
+    this.effects.delete(effect);
+  }
+
+  /**
+   * Current numbers for the given effects, in their draw order
+   */
+  getStats(effects: readonly Effect[]): VizFXStats {
+    const frameTime = this.frameTimes.timing();
+
+    return {
+      fps: frameTime.average > 0 ? 1000 / frameTime.average : 0,
+      frameTime,
+      cpuTime: this.cpuTimes.timing(),
+      drawCalls: this.drawCalls.average(),
+      verticesUploaded: this.verticesUploaded.average(),
+      bytesUploaded: this.bytesUploaded.average(),
+      effects: effects.map(effect => {
+        const samples = this.effects.get(effect);
+        return {
+          type: effect.type ?? 'custom',
+          updateTime: samples?.update.average() ?? 0,
+          renderTime: samples?.render.average() ?? 0,
+        };
+      }),
+      frames: this.cpuTimes.size,
+    };
+  }
+}
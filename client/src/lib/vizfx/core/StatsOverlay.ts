@@ -0,0 +1,112 @@
+/**
+ * Stats overlay - Small text panel showing frame stats over the canvas
+ */
+
+import type { VizFXStats } from './Stats';
+
+/**
+ * Anything that reports stats: a VizFX or VizFXWorker instance
+ */
+export interface StatsSource {
+  getStats(): VizFXStats | null;
+  getCanvas(): HTMLCanvasElement | OffscreenCanvas;
+}
+
+export interface StatsOverlayOptions {
+  /**
+   * Element (or selector) to add the panel to (default: the canvas's
+   * parent). The panel is absolutely positioned, so the container should
+   * be positioned too.
+   */
+  container?: HTMLElement | string;
+  /** Milliseconds between updates (default: 500) */
+  interval?: number;
+  /** Class for styling the panel (default: 'vizfx-stats') */
+  className?: string;
+}
+
+const PANEL_STYLE =
+  'position:absolute;top:0;left:0;z-index:1;margin:4px;padding:4px 6px;' +
+  'font:11px/1.4 monospace;white-space:pre;color:#fff;' +
+  'background:rgba(0,0,0,0.6);pointer-events:none';
+
+export class StatsOverlay {
+  /** The panel; restyle it through the class name or inline styles */
+  readonly element: HTMLDivElement;
+  private source: StatsSource;
+  private timer: ReturnType<typeof setInterval>;
+
+  constructor(source: StatsSource, options: StatsOverlayOptions = {}) {
+    this.source = source;
+
+    let container: Element | null;
+    if (typeof options.container === 'string') {
+      container = document.querySelector(options.container);
+      if (!container) {
+        throw new Error(`Stats overlay container not found: ${options.container}`);
+      }
+    } else {
+      const canvas = source.getCanvas();
+      container =
+        options.container ??
+        (canvas instanceof HTMLCanvasElement ? canvas.parentElement : null);
+      if (!container) {
+        throw new Error('Stats overlay needs a container for offscreen canvases');
+      }
+    }
+
+    this.element = document.createElement('div');
+    this.element.className = options.className ?? 'vizfx-stats';
+    this.element.style.cssText = PANEL_STYLE;
+    // Developer tooling, not page content
+    this.element.setAttribute('aria-hidden', 'true');
+    container.appendChild(this.element);
+
+    this.timer = setInterval(this.update, options.interval ?? 500);
+    this.update();
+  }
+
+  private update = (): void => {
+    const stats = this.source.getStats();
+    this.element.textContent = stats ? formatStats(stats) : 'Waiting for stats…';
+  };
+
+  /**
+   * Remove the panel. Stats keep being collected.
+   */
+  destroy(): void {
+    clearInterval(this.timer);
+    this.element.remove();
+  }
+}
+
+/**
+ * Stats as the overlay shows them, one line per topic and per effect
+ */
+export function formatStats(stats: VizFXStats): string {
+  const { frameTime, cpuTime } = stats;
+  const lines = [
+    `${stats.fps.toFixed(0)} fps  ${ms(frameTime.average)} ` +
+      `(p95 ${ms(frameTime.p95)}, p99 ${ms(frameTime.p99)})`,
+    `cpu ${ms(cpuTime.average)}  draws ${stats.drawCalls.toFixed(0)}  ` +
+      `verts ${stats.verticesUploaded.toFixed(0)}  ${formatBytes(stats.bytesUploaded)}/frame`,
+  ];
+
+  for (const effect of stats.effects) {
+    lines.push(
+      `${effect.type}  update ${ms(effect.updateTime)}  render ${ms(effect.renderTime)}`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function ms(value: number): string {
+  return `${value.toFixed(value < 10 ? 2 : 1)}ms`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${bytes.toFixed(0)}B`;
+}
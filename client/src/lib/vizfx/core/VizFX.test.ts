@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { VizFX } from './VizFX';
+
+/**
+ * A canvas with just enough layout: without a CSS size its box is its
+ * drawing buffer size, as in a browser
+ */
+class FakeCanvas extends EventTarget {
+  width = 300;
+  height = 150;
+  style = { width: '', height: '', backgroundImage: '' };
+
+  constructor(public cssSize: { width: number; height: number } | null = null) {
+    super();
+  }
+
+  get clientWidth(): number {
+    if (this.style.width) return parseFloat(this.style.width);
+    return this.cssSize?.width ?? this.width;
+  }
+
+  get clientHeight(): number {
+    if (this.style.height) return parseFloat(this.style.height);
+    return this.cssSize?.height ?? this.height;
+  }
+
+  getContext(type: string): object | null {
+    return type === '2d' ? {} : null;
+  }
+}
+
+let observe: ResizeObserverCallback | null = null;
+
+class FakeResizeObserver {
+  constructor(callback: ResizeObserverCallback) {
+    observe = callback;
+  }
+  observe(): void {}
+  disconnect(): void {}
+}
+
+/**
+ * Report the canvas's current box the way a ResizeObserver would after
+ * each layout
+ */
+function layout(canvas: FakeCanvas): void {
+  const contentRect = { width: canvas.clientWidth, height: canvas.clientHeight };
+  observe?.([{ contentRect } as ResizeObserverEntry], {} as ResizeObserver);
+}
+
+function createViz(canvas: FakeCanvas, options: { dpr: number; resolutionScale?: number }) {
+  vi.stubGlobal('HTMLCanvasElement', FakeCanvas);
+  vi.stubGlobal('ResizeObserver', FakeResizeObserver);
+  return new VizFX({
+    canvas: canvas as unknown as HTMLCanvasElement,
+    backend: 'canvas2d',
+    pauseWhenHidden: false,
+    ...options,
+  });
+}
+
+describe('VizFX sizing', () => {
+  afterEach(() => {
+    observe = null;
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    { name: 'DPR 2', dpr: 2, buffer: [600, 300] },
+    { name: 'half resolution', dpr: 1, resolutionScale: 0.5, buffer: [150, 75] },
+  ])('keeps a canvas without CSS size stable at $name', options => {
+    const { name, buffer, ...vizOptions } = options;
+    const canvas = new FakeCanvas();
+    createViz(canvas, vizOptions);
+
+    for (let i = 0; i < 5; i++) layout(canvas);
+
+    expect([canvas.clientWidth, canvas.clientHeight]).toEqual([300, 150]);
+    expect([canvas.width, canvas.height]).toEqual(buffer);
+  });
+
+  it('follows a canvas sized by CSS without pinning it', () => {
+    const canvas = new FakeCanvas({ width: 400, height: 200 });
+    createViz(canvas, { dpr: 2 });
+    expect(canvas.width).toBe(800);
+
+    canvas.cssSize = { width: 500, height: 250 };
+    layout(canvas);
+
+    expect(canvas.style.width).toBe('');
+    expect([canvas.width, canvas.height]).toEqual([1000, 500]);
+  });
+});
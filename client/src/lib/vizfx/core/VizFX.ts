@@ -4,28 +4,270 @@
 
 import { Effect } from './Effect';
 import { InteractionManager } from '../utils/interaction';
+import { EventEmitter, Listener } from '../utils/events';
+import { pinIntrinsicSize } from '../utils/canvasSize';
+import {
+  RendererCapabilities,
+  getCapabilities,
+  resetCapabilities,
+} from './capabilities';
+import { PostProcessStack } from '../postprocess/PostProcessStack';
+import { Layer, LayerCompositor, LayerOptions } from './Layer';
+import { Clock } from './Clock';
+import {
+  ReducedMotionPolicy,
+  getMotionScale,
+  getReducedMotionQuery,
+} from './motion';
+import { PauseControl, PauseControlOptions } from './PauseControl';
+import { StatsCollector, VizFXStats } from './Stats';
+import { StatsOverlay, StatsOverlayOptions } from './StatsOverlay';
+import { Canvas2DContext, COMPOSITE_OPERATIONS } from '../utils/canvas2d';
+import { Animation, Tween, TweenOptions } from '../animation/Tween';
+import { Timeline, TimelineOptions } from '../animation/Timeline';
+import { AnimatableProperties } from '../animation/values';
+import {
+  SCENE_VERSION,
+  SceneJSON,
+  SceneOptions,
+  createEffect,
+  parseScene,
+  pickSceneOptions,
+  serializeLayer,
+} from './scene';
+import {
+  getScenePreset,
+  getScenePresetNames,
+  registerScenePreset,
+} from './presets';
+import {
+  EffectFactory,
+  EffectSchema,
+  getEffectRegistration,
+  getEffectTypes,
+  registerEffectType,
+} from './registry';
+import {
+  QUALITY_DPR_SCALE,
+  QualityGovernor,
+  QualityLevel,
+} from './QualityGovernor';
 
 export interface VizFXOptions {
-  canvas?: HTMLCanvasElement | string;
+  /**
+   * Canvas element, selector, or an OffscreenCanvas when running in a worker
+   */
+  canvas?: HTMLCanvasElement | OffscreenCanvas | string;
   width?: number;
   height?: number;
   dpr?: number;
   alpha?: boolean;
   antialias?: boolean;
+  /**
+   * Rendering backend. 'auto' prefers WebGL2, then WebGL1, then the Canvas 2D
+   * fallback. (default: 'auto')
+   */
+  backend?: 'webgl2' | 'webgl1' | 'canvas2d' | 'auto';
+  /**
+   * Called when 'auto' found no WebGL and fell back to Canvas 2D
+   */
+  onFallback?: (info: FallbackInfo) => void;
+  /**
+   * Opt-in adaptive quality. When set, VizFX lowers resolution and effect
+   * detail while frames run slower than this and restores it when they recover.
+   */
+  targetFps?: number;
+  /**
+   * Pause rendering while the canvas is scrolled out of view or the page is
+   * hidden (default: true)
+   */
+  pauseWhenHidden?: boolean;
+  /**
+   * Upper bound for the device pixel ratio (default: 2). Keeps 3x screens
+   * from rendering 9x the pixels.
+   */
+  maxDpr?: number;
+  /**
+   * Drawing buffer scale on top of the DPR, e.g. 0.5 for soft backgrounds
+   * (default: 1)
+   */
+  resolutionScale?: number;
+  /** Playback speed multiplier (default: 1) */
+  timeScale?: number;
+  /**
+   * Update effects in fixed steps of this many seconds for frame-rate
+   * independent, repeatable animation (default: variable step)
+   */
+  fixedTimeStep?: number;
+  /**
+   * Keep the drawing buffer between frames so it can be read back at any
+   * time. captureFrame() works without it. (default: false)
+   */
+  preserveDrawingBuffer?: boolean;
+  /**
+   * Apply reduced-motion policies: 'auto' follows the user's
+   * prefers-reduced-motion setting (default: 'auto')
+   */
+  reducedMotion?: boolean | 'auto';
+  /**
+   * Speed of 'slow' effects while motion is reduced (default: 0.25)
+   */
+  reducedMotionSpeed?: number;
+  /**
+   * Accessible description of the canvas (e.g. "Animated gradient"). Without
+   * one, a canvas VizFX creates itself is hidden from assistive technology.
+   */
+  label?: string;
+  /**
+   * Collect frame stats for getStats() from the first frame (default: false;
+   * collection otherwise starts with the first getStats() call)
+   */
+  stats?: boolean;
+}
+
+/**
+ * Why VizFX fell back to Canvas 2D
+ */
+export interface FallbackInfo {
+  backend: 'canvas2d';
+  reason: string;
 }
 
+/**
+ * Events emitted by a VizFX instance
+ */
+export interface VizFXEventMap {
+  /** The GPU context was lost; rendering is paused until it is restored */
+  contextlost: undefined;
+  /** The GPU context was restored and all effects were re-initialized */
+  contextrestored: undefined;
+  /** The quality level changed, either adaptively or through setQuality() */
+  qualitychange: { level: QualityLevel; previous: QualityLevel; fps: number };
+  /** start() or stop() changed whether the loop runs */
+  playstatechange: { playing: boolean };
+  /** Reduced motion was switched on or off */
+  motionchange: { reduced: boolean };
+}
+
+type SuspendReason = 'contextlost' | 'offscreen' | 'hidden' | 'host';
+
 export class VizFX {
-  private canvas: HTMLCanvasElement;
+  private canvas: HTMLCanvasElement | OffscreenCanvas;
   private gl: WebGLRenderingContext | null = null;
-  private effects: Effect[] = [];
+  /** Fallback renderer when WebGL is unavailable */
+  private ctx2d: Canvas2DContext | null = null;
+  /** CSS backgrounds standing in for effects without render2D() */
+  private fallbackBackground: string = '';
+  private layers: Layer[] = [];
+  private compositor = new LayerCompositor();
   private animationId: number | null = null;
-  private startTime: number = 0;
+  private clock: Clock;
   private lastTime: number = 0;
   private isRunning: boolean = false;
   private interactionManager: InteractionManager | null = null;
   private dpr: number;
+  private baseDpr: number;
+  private width: number = 0;
+  private height: number = 0;
+  private renderSize: { width: number; height: number } | null = null;
+  private quality: QualityLevel = 'high';
+  private governor: QualityGovernor | null = null;
+  private capabilities: RendererCapabilities | null = null;
+  private postProcess: PostProcessStack | null = null;
+  private suspendReasons = new Set<SuspendReason>();
+  private visibilityObserver: IntersectionObserver | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private events = new EventEmitter<VizFXEventMap>();
+  private animations: Animation[] = [];
+  private sceneOptions: SceneOptions;
+  private reducedMotion: boolean | 'auto';
+  private reducedMotionQuery: MediaQueryList | null = null;
+  private slowMotionScale: number;
+  /** How far each slowed or held layer runs behind the scene clock */
+  private motionOffsets = new WeakMap<Layer, number>();
+  private stats: StatsCollector | null = null;
+
+  /**
+   * Register an effect type so scenes and tooling can create it by name.
+   * The schema lists every option with its type, range, default and
+   * description; options outside it are rejected when loading.
+   */
+  static registerEffect(
+    type: string,
+    factory: EffectFactory,
+    schema: EffectSchema = {}
+  ): void {
+    registerEffectType(type, factory, schema);
+  }
+
+  /**
+   * Names of all registered effect types, built-in ones included
+   */
+  static getEffectTypes(): string[] {
+    return getEffectTypes();
+  }
+
+  /**
+   * Option metadata of a registered effect type, e.g. to build a control panel
+   */
+  static getEffectSchema(type: string): EffectSchema | undefined {
+    return getEffectRegistration(type)?.schema;
+  }
+
+  /**
+   * Create a registered effect by name. Options are validated and missing
+   * ones take their schema defaults.
+   */
+  static createEffect(type: string, options: object = {}): Effect {
+    return createEffect({ type, options });
+  }
+
+  /**
+   * Register a named scene, e.g. for <viz-fx scene="name">. The scene is
+   * validated immediately.
+   */
+  static registerPreset(name: string, scene: SceneJSON | string): void {
+    registerScenePreset(name, scene);
+  }
+
+  /**
+   * Names of all registered presets, built-in ones included
+   */
+  static getPresetNames(): string[] {
+    return getScenePresetNames();
+  }
+
+  /**
+   * A registered preset scene, ready for fromJSON()
+   */
+  static getPreset(name: string): SceneJSON | undefined {
+    return getScenePreset(name);
+  }
+
+  /**
+   * Build a scene saved with toJSON(). Throws SceneValidationError naming
+   * the first invalid field; nothing is created in that case.
+   */
+  static fromJSON(
+    json: SceneJSON | string,
+    canvas: HTMLCanvasElement | OffscreenCanvas | string
+  ): VizFX {
+    const scene = parseScene(json);
+    const effects = scene.effects.map((effect, index) =>
+      createEffect(effect, `effects[${index}]`)
+    );
+
+    const viz = new VizFX({ ...scene.options, canvas });
+    scene.effects.forEach(({ layer }, index) => {
+      viz.addEffect(effects[index], layer);
+    });
+
+    return viz;
+  }
 
   constructor(options: VizFXOptions = {}) {
+    this.sceneOptions = pickSceneOptions(options);
+
     // Get or create canvas
     if (typeof options.canvas === 'string') {
       const element = document.querySelector(options.canvas);
@@ -33,25 +275,142 @@ export class VizFX {
         throw new Error(`Canvas element not found: ${options.canvas}`);
       }
       this.canvas = element;
-    } else if (options.canvas instanceof HTMLCanvasElement) {
+    } else if (options.canvas) {
       this.canvas = options.canvas;
     } else {
-      this.canvas = document.createElement('canvas');
-      document.body.appendChild(this.canvas);
+      const canvas = document.createElement('canvas');
+      // Size through CSS so the drawing buffer never feeds back into layout
+      canvas.style.display = 'block';
+      canvas.style.width = '100%';
+      canvas.style.height = '100%';
+      // Decoration unless labelled below
+      if (!options.label) {
+        canvas.setAttribute('aria-hidden', 'true');
+      }
+      document.body.appendChild(canvas);
+      this.canvas = canvas;
+    }
+
+    const element = this.getElement();
+    if (element && options.label) {
+      element.setAttribute('role', 'img');
+      element.setAttribute('aria-label', options.label);
     }
 
+    this.reducedMotion = options.reducedMotion ?? 'auto';
+    this.slowMotionScale = options.reducedMotionSpeed ?? 0.25;
+    this.reducedMotionQuery = getReducedMotionQuery();
+    this.reducedMotionQuery?.addEventListener('change', this.handleMotionQueryChange);
+
     // Set device pixel ratio
-    this.dpr = options.dpr ?? window.devicePixelRatio ?? 1;
+    const deviceDpr =
+      options.dpr ??
+      (typeof window !== 'undefined' ? window.devicePixelRatio : 1) ??
+      1;
+    this.baseDpr =
+      Math.min(deviceDpr, options.maxDpr ?? 2) * (options.resolutionScale ?? 1);
+    this.dpr = this.baseDpr;
+
+    // Scene time. The clock caps long frames so a stall can't teleport
+    // particles.
+    this.clock = new Clock({
+      timeScale: options.timeScale,
+      fixedTimeStep: options.fixedTimeStep,
+    });
+
+    if (options.targetFps) {
+      this.governor = new QualityGovernor({ targetFps: options.targetFps });
+    }
 
     // Initialize WebGL
     this.initWebGL(options);
 
-    // Setup interaction
-    this.interactionManager = new InteractionManager(this.canvas);
+    if (options.stats) {
+      this.enableStats();
+    }
+
+    // Survive GPU context eviction (common on mobile)
+    this.canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.addEventListener(
+      'webglcontextrestored',
+      this.handleContextRestored
+    );
+
+    // Setup interaction. Offscreen canvases get pointer state forwarded.
+    this.interactionManager = new InteractionManager(element);
 
-    // Handle resize
+    // Handle resize. Without a fixed size the canvas follows its CSS box,
+    // which also catches panels, sidebars and animated containers.
+    const fixedSize = options.width !== undefined || options.height !== undefined;
+    if (element && !fixedSize && options.canvas) {
+      pinIntrinsicSize(element);
+    }
     this.resize(options.width, options.height);
-    window.addEventListener('resize', () => this.resize());
+    if (element && !fixedSize) {
+      this.observeSize(element);
+    }
+
+    // Don't burn battery on canvases nobody can see
+    if (element && (options.pauseWhenHidden ?? true)) {
+      this.observeVisibility(element);
+    }
+  }
+
+  private observeSize(element: HTMLCanvasElement): void {
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', this.handleWindowResize);
+      return;
+    }
+
+    this.resizeObserver = new ResizeObserver(entries => {
+      const { width, height } = entries[entries.length - 1].contentRect;
+      if (width !== this.width || height !== this.height) {
+        this.applySize(width, height);
+      }
+    });
+    this.resizeObserver.observe(element);
+  }
+
+  private handleWindowResize = (): void => {
+    this.resize();
+  };
+
+  private observeVisibility(element: HTMLCanvasElement): void {
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.visibilityObserver = new IntersectionObserver(
+        entries => {
+          const entry = entries[entries.length - 1];
+          if (entry.isIntersecting) {
+            this.resume('offscreen');
+          } else {
+            this.suspend('offscreen');
+          }
+        },
+        { rootMargin: '50px' }
+      );
+      this.visibilityObserver.observe(element);
+    }
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.handleVisibilityChange();
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.hidden) {
+      this.suspend('hidden');
+    } else {
+      this.resume('hidden');
+    }
+  };
+
+  /**
+   * The canvas as a DOM element, or null when rendering offscreen
+   */
+  private getElement(): HTMLCanvasElement | null {
+    return typeof HTMLCanvasElement !== 'undefined' &&
+      this.canvas instanceof HTMLCanvasElement
+      ? this.canvas
+      : null;
   }
 
   private initWebGL(options: VizFXOptions): void {
@@ -59,35 +418,170 @@ export class VizFX {
       alpha: options.alpha ?? true,
       antialias: options.antialias ?? true,
       premultipliedAlpha: false,
+      preserveDrawingBuffer: options.preserveDrawingBuffer ?? false,
     };
 
-    this.gl =
-      (this.canvas.getContext('webgl', contextOptions) as WebGLRenderingContext) ||
-      (this.canvas.getContext('experimental-webgl', contextOptions) as WebGLRenderingContext);
+    const backend = options.backend ?? 'auto';
+    if (backend === 'canvas2d') {
+      this.initCanvas2D();
+      return;
+    }
+
+    if (backend !== 'webgl1') {
+      this.gl = this.canvas.getContext(
+        'webgl2',
+        contextOptions
+      ) as WebGL2RenderingContext | null;
+    }
+
+    if (!this.gl && backend !== 'webgl2') {
+      const element = this.getElement();
+      this.gl =
+        (this.canvas.getContext('webgl', contextOptions) as WebGLRenderingContext) ||
+        // OffscreenCanvas rejects the legacy context name
+        (element?.getContext('experimental-webgl', contextOptions) as WebGLRenderingContext) ||
+        null;
+    }
+
+    if (!this.gl && backend === 'auto') {
+      this.initCanvas2D();
+      options.onFallback?.({ backend: 'canvas2d', reason: 'WebGL not supported' });
+      return;
+    }
 
     if (!this.gl) {
-      throw new Error('WebGL not supported');
+      throw new Error(
+        backend === 'webgl2' ? 'WebGL2 not supported' : 'WebGL not supported'
+      );
+    }
+
+    this.capabilities = getCapabilities(this.gl);
+
+    this.setupGLState();
+    this.compositor.init(this.gl);
+  }
+
+  private initCanvas2D(): void {
+    this.ctx2d = this.canvas.getContext('2d') as Canvas2DContext | null;
+    if (!this.ctx2d) {
+      throw new Error('Neither WebGL nor Canvas 2D is supported');
     }
+  }
+
+  /**
+   * Apply global GL state. Called on init and again after a context restore.
+   */
+  private setupGLState(): void {
+    if (!this.gl) return;
 
     // Set clear color
     this.gl.clearColor(0, 0, 0, 0);
 
-    // Enable blending for transparency
+    // Enable blending for transparency. Alpha accumulates with ONE so that
+    // offscreen targets (post-processing) keep a correct coverage value.
     this.gl.enable(this.gl.BLEND);
-    this.gl.blendFunc(this.gl.SRC_ALPHA, this.gl.ONE_MINUS_SRC_ALPHA);
+    this.gl.blendFuncSeparate(
+      this.gl.SRC_ALPHA,
+      this.gl.ONE_MINUS_SRC_ALPHA,
+      this.gl.ONE,
+      this.gl.ONE_MINUS_SRC_ALPHA
+    );
+  }
+
+  private handleContextLost = (event: Event): void => {
+    // Signal that we want the context back
+    event.preventDefault();
+
+    this.suspend('contextlost');
+    this.events.emit('contextlost', undefined);
+  };
+
+  private handleContextRestored = (): void => {
+    if (!this.gl) return;
+
+    // Extensions have to be enabled again on the new context
+    resetCapabilities(this.gl);
+    this.capabilities = getCapabilities(this.gl);
+
+    this.setupGLState();
+
+    // Old GPU resources are gone; rebuild them on the new context
+    const view = this.getViewSize();
+    for (const { effect } of this.layers) {
+      effect.init(this.gl);
+      effect.resize(view.width, view.height);
+    }
+    this.compositor.init(this.gl);
+    this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+
+    if (this.postProcess) {
+      this.postProcess.init(this.gl);
+      this.postProcess.resize(this.canvas.width, this.canvas.height);
+    }
+
+    this.resume('contextlost');
+    this.events.emit('contextrestored', undefined);
+  };
+
+  /**
+   * Subscribe to an event
+   */
+  on<K extends keyof VizFXEventMap>(
+    event: K,
+    listener: Listener<VizFXEventMap[K]>
+  ): VizFX {
+    this.events.on(event, listener);
+    return this;
   }
 
   /**
-   * Add an effect to the scene
+   * Unsubscribe from an event
    */
-  addEffect(effect: Effect): VizFX {
-    if (!this.gl) return this;
+  off<K extends keyof VizFXEventMap>(
+    event: K,
+    listener: Listener<VizFXEventMap[K]>
+  ): VizFX {
+    this.events.off(event, listener);
+    return this;
+  }
 
-    effect.init(this.gl);
-    this.effects.push(effect);
+  /**
+   * Whether the WebGL context is currently lost
+   */
+  isContextLost(): boolean {
+    if (this.ctx2d) return false;
+    return !this.gl || this.gl.isContextLost();
+  }
+
+  /**
+   * The renderer in use: a WebGL version, or the Canvas 2D fallback
+   */
+  getBackend(): 'webgl2' | 'webgl1' | 'canvas2d' {
+    return this.ctx2d ? 'canvas2d' : this.capabilities?.backend ?? 'webgl1';
+  }
+
+  /**
+   * Add an effect to the scene, optionally with layer settings
+   */
+  addEffect(effect: Effect, layer: LayerOptions = {}): VizFX {
+    if (this.ctx2d) {
+      effect.init2D?.(this.ctx2d);
+    } else if (!this.gl) {
+      return this;
+    } else if (!this.gl.isContextLost()) {
+      // While the context is lost the effect is initialized on restore
+      effect.init(this.gl);
+    }
+    this.layers.push(new Layer(effect, layer));
 
     // Resize effect to current canvas size
-    effect.resize(this.canvas.width / this.dpr, this.canvas.height / this.dpr);
+    const view = this.getViewSize();
+    effect.resize(view.width, view.height);
+
+    if (this.quality !== 'high') {
+      effect.setQuality?.(this.quality);
+    }
+    effect.setInteraction?.(this.interactionManager);
 
     return this;
   }
@@ -96,17 +590,68 @@ export class VizFX {
    * Remove an effect from the scene
    */
   removeEffect(effect: Effect): VizFX {
-    if (!this.gl) return this;
-
-    const index = this.effects.indexOf(effect);
+    const index = this.layers.findIndex(layer => layer.effect === effect);
     if (index !== -1) {
-      effect.destroy(this.gl);
-      this.effects.splice(index, 1);
+      if (this.gl) effect.destroy(this.gl);
+      effect.setInteraction?.(null);
+      this.layers.splice(index, 1);
+      this.stats?.forget(effect);
     }
 
     return this;
   }
 
+  /**
+   * Get the layer settings of an effect in the scene
+   */
+  getLayer(effect: Effect): Layer | undefined {
+    return this.layers.find(layer => layer.effect === effect);
+  }
+
+  /**
+   * Get all layers in draw order
+   */
+  getLayers(): readonly Layer[] {
+    return this.sortLayers();
+  }
+
+  /**
+   * Layers sorted by zIndex. The sort is stable and leaves `layers` alone,
+   * so equal zIndex keeps insertion order.
+   */
+  private sortLayers(): Layer[] {
+    return [...this.layers].sort((a, b) => a.zIndex - b.zIndex);
+  }
+
+  /**
+   * Set the post-processing stack applied to the whole scene.
+   * Pass null to render straight to the canvas again. Post-processing needs
+   * WebGL and is skipped by the Canvas 2D fallback.
+   */
+  setPostProcess(stack: PostProcessStack | null): VizFX {
+    if (stack === this.postProcess) return this;
+
+    if (this.postProcess && this.gl) {
+      this.postProcess.destroy(this.gl);
+    }
+
+    this.postProcess = stack;
+
+    if (stack && this.gl) {
+      stack.init(this.gl);
+      stack.resize(this.canvas.width, this.canvas.height);
+    }
+
+    return this;
+  }
+
+  /**
+   * Get the post-processing stack
+   */
+  getPostProcess(): PostProcessStack | null {
+    return this.postProcess;
+  }
+
   /**
    * Start the animation loop
    */
@@ -114,10 +659,12 @@ export class VizFX {
     if (this.isRunning) return this;
 
     this.isRunning = true;
-    this.startTime = performance.now();
-    this.lastTime = this.startTime;
-    this.animate();
+    this.lastTime = performance.now();
+    if (this.suspendReasons.size === 0) {
+      this.animate();
+    }
 
+    this.events.emit('playstatechange', { playing: true });
     return this;
   }
 
@@ -128,66 +675,439 @@ export class VizFX {
     if (!this.isRunning) return this;
 
     this.isRunning = false;
+    this.cancelFrame();
+
+    this.events.emit('playstatechange', { playing: false });
+    return this;
+  }
+
+  /**
+   * Pause the loop for an internal reason without changing the running state
+   */
+  private suspend(reason: SuspendReason): void {
+    this.suspendReasons.add(reason);
+    this.cancelFrame();
+  }
+
+  /**
+   * Lift an internal pause; the loop resumes once no reasons remain
+   */
+  private resume(reason: SuspendReason): void {
+    if (!this.suspendReasons.delete(reason)) return;
+    if (!this.isRunning || this.suspendReasons.size > 0) return;
+
+    // Continue the timeline where it stopped instead of jumping ahead
+    this.lastTime = performance.now();
+    this.governor?.reset();
+    this.animate();
+  }
+
+  private cancelFrame(): void {
     if (this.animationId !== null) {
       cancelAnimationFrame(this.animationId);
       this.animationId = null;
     }
-
-    return this;
   }
 
   /**
    * Animation loop
    */
   private animate = (): void => {
-    if (!this.isRunning || !this.gl) return;
+    if (!this.isRunning || this.suspendReasons.size > 0) return;
+    if (!this.gl && !this.ctx2d) return;
 
     this.animationId = requestAnimationFrame(this.animate);
 
     const now = performance.now();
-    const time = (now - this.startTime) / 1000;
     const deltaTime = (now - this.lastTime) / 1000;
     this.lastTime = now;
 
-    // Clear canvas
-    this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+    // Adapt quality to the measured (real) frame rate
+    const change = this.governor?.sample(deltaTime);
+    if (change) {
+      this.applyQuality(change.level, change.fps);
+    }
+
+    this.stats?.beginFrame(deltaTime);
+    this.clock.update(deltaTime, this.updateEffects);
+    this.renderFrame();
+    this.stats?.endFrame();
+  };
+
+  /**
+   * Advance every effect by one clock step
+   */
+  private updateEffects = (time: number, deltaTime: number): void => {
+    // Animations first, so their values show in this frame
+    this.updateAnimations(deltaTime);
+
+    const reduced = this.isReducedMotion();
+    for (const layer of this.layers) {
+      const { effect } = layer;
+      if (effect.isEnabled?.() === false) continue;
+
+      const scale = reduced
+        ? getMotionScale(this.getMotionPolicy(layer), this.slowMotionScale)
+        : 1;
+      if (scale === null) continue;
+
+      // Slowed and held layers fall behind the scene clock and continue
+      // from there, so effect time never jumps when the preference changes
+      let offset = this.motionOffsets.get(layer) ?? 0;
+      if (scale < 1) {
+        offset += deltaTime * (1 - scale);
+        this.motionOffsets.set(layer, offset);
+      }
+
+      if (this.stats) {
+        const start = performance.now();
+        effect.update(time - offset, deltaTime * scale);
+        this.stats.recordUpdate(effect, performance.now() - start);
+      } else {
+        effect.update(time - offset, deltaTime * scale);
+      }
+    }
+  };
+
+  private getMotionPolicy(layer: Layer): ReducedMotionPolicy {
+    return layer.reducedMotion ?? layer.effect.reducedMotion ?? 'static';
+  }
 
-    // Update and render all effects
-    for (const effect of this.effects) {
-      effect.update(time, deltaTime);
-      effect.render(this.gl);
+  private handleMotionQueryChange = (): void => {
+    if (this.reducedMotion === 'auto') {
+      this.events.emit('motionchange', { reduced: this.isReducedMotion() });
     }
   };
 
+  private updateAnimations(deltaTime: number): void {
+    if (this.animations.length === 0) return;
+
+    // Animations may start new ones (e.g. from onComplete) while we iterate
+    const running = this.animations;
+    this.animations = [];
+    for (const animation of running) {
+      if (!animation.update(deltaTime)) {
+        this.animations.push(animation);
+      }
+    }
+  }
+
+  /**
+   * Draw all layers at the current clock time
+   */
+  private renderFrame(): void {
+    if (this.ctx2d) {
+      this.renderFrame2D(this.ctx2d);
+      return;
+    }
+    if (!this.gl) return;
+
+    // Render into the post-processing input when any pass is enabled
+    const postProcess = this.postProcess?.isActive() ? this.postProcess : null;
+
+    // Clear canvas
+    if (postProcess) {
+      postProcess.begin(this.gl);
+    } else {
+      this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+    }
+
+    // Render all effects, bottom layer first
+    const gl = this.gl;
+    const destination = postProcess ? postProcess.getSceneTarget() : null;
+    const reduced = this.isReducedMotion();
+    for (const layer of this.sortLayers()) {
+      if (!this.isDrawn(layer, reduced)) continue;
+      this.compositor.render(gl, layer, destination, () =>
+        this.measureRender(layer.effect, () => layer.effect.render(gl))
+      );
+    }
+
+    postProcess?.end(this.gl, this.clock.getTime());
+  }
+
+  /**
+   * Draw an effect, timing it while stats are collected
+   */
+  private measureRender(effect: Effect, draw: () => void): void {
+    if (!this.stats) {
+      draw();
+      return;
+    }
+
+    const start = performance.now();
+    draw();
+    this.stats.recordRender(effect, performance.now() - start);
+  }
+
+  private isDrawn(layer: Layer, reduced: boolean): boolean {
+    if (layer.effect.isEnabled?.() === false) return false;
+    return !reduced || this.getMotionPolicy(layer) !== 'disable';
+  }
+
+  /**
+   * Draw all layers with the Canvas 2D fallback. Effects without
+   * render2D() show their CSS stand-in behind the canvas, if they have one.
+   */
+  private renderFrame2D(ctx: Canvas2DContext): void {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+
+    const reduced = this.isReducedMotion();
+    const backgrounds: string[] = [];
+    for (const layer of this.sortLayers()) {
+      if (!this.isDrawn(layer, reduced)) continue;
+      if (!layer.visible || layer.opacity <= 0) continue;
+
+      const { effect } = layer;
+      if (effect.render2D) {
+        ctx.save();
+        ctx.globalAlpha = layer.opacity;
+        ctx.globalCompositeOperation = COMPOSITE_OPERATIONS[layer.blendMode];
+        this.measureRender(effect, () => effect.render2D!(ctx));
+        ctx.restore();
+      } else {
+        // CSS lists the top layer first
+        const background = effect.getFallbackBackground?.();
+        if (background) backgrounds.unshift(background);
+      }
+    }
+
+    this.setFallbackBackground(backgrounds.join(', '));
+  }
+
+  private setFallbackBackground(background: string): void {
+    const element = this.getElement();
+    if (!element || background === this.fallbackBackground) return;
+
+    this.fallbackBackground = background;
+    element.style.backgroundImage = background;
+  }
+
   /**
    * Resize canvas
    */
   resize(width?: number, height?: number): VizFX {
-    if (!this.gl) return this;
+    if (!this.gl && !this.ctx2d) return this;
 
     // Use provided dimensions or container dimensions
-    const w = width ?? this.canvas.clientWidth;
-    const h = height ?? this.canvas.clientHeight;
+    const element = this.getElement();
+    const w = width ?? element?.clientWidth ?? this.width;
+    const h = height ?? element?.clientHeight ?? this.height;
 
-    // Update canvas size with device pixel ratio
-    this.canvas.width = w * this.dpr;
-    this.canvas.height = h * this.dpr;
+    // Explicit sizes pin the CSS size; otherwise CSS stays in control
+    if (element && (width !== undefined || height !== undefined)) {
+      element.style.width = `${w}px`;
+      element.style.height = `${h}px`;
+    }
+
+    this.applySize(w, h);
+
+    return this;
+  }
 
-    // Update canvas style size
-    this.canvas.style.width = `${w}px`;
-    this.canvas.style.height = `${h}px`;
+  /**
+   * Size the drawing buffer for a CSS size and propagate it
+   */
+  private applySize(w: number, h: number): void {
+    this.width = w;
+    this.height = h;
+    this.updateDrawingBuffer();
+  }
+
+  /**
+   * Size effects see: the CSS size, or the render size override in pixels
+   */
+  private getViewSize(): { width: number; height: number } {
+    return this.renderSize ?? { width: this.width, height: this.height };
+  }
+
+  private updateDrawingBuffer(): void {
+    if (!this.gl && !this.ctx2d) return;
+
+    const { width: w, height: h } = this.getViewSize();
+    const dpr = this.renderSize ? 1 : this.dpr;
+
+    // Update canvas size with device pixel ratio
+    this.canvas.width = Math.max(1, Math.round(w * dpr));
+    this.canvas.height = Math.max(1, Math.round(h * dpr));
 
     // Update viewport
-    this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    this.gl?.viewport(0, 0, this.canvas.width, this.canvas.height);
 
     // Resize all effects
-    for (const effect of this.effects) {
+    for (const { effect } of this.layers) {
       effect.resize(w, h);
     }
 
+    this.postProcess?.resize(this.canvas.width, this.canvas.height);
+  }
+
+  /**
+   * Set the quality level manually. With `targetFps` the governor continues
+   * adapting from this level.
+   */
+  setQuality(level: QualityLevel): VizFX {
+    const fps = this.governor?.getFps() ?? 0;
+    this.governor?.setLevel(level);
+    this.applyQuality(level, fps);
+    return this;
+  }
+
+  /**
+   * Get the current quality level
+   */
+  getQuality(): QualityLevel {
+    return this.quality;
+  }
+
+  private applyQuality(level: QualityLevel, fps: number): void {
+    const previous = this.quality;
+    if (level === previous) return;
+
+    this.quality = level;
+
+    // Fewer pixels is the biggest win for fill-rate bound effects
+    this.dpr = this.baseDpr * QUALITY_DPR_SCALE[level];
+    this.applySize(this.width, this.height);
+
+    for (const { effect } of this.layers) {
+      effect.setQuality?.(level);
+    }
+
+    this.events.emit('qualitychange', {
+      level,
+      previous,
+      fps,
+    });
+  }
+
+  /**
+   * Render at an exact pixel size regardless of the canvas' CSS size (e.g.
+   * for exports). The on-screen canvas shows the scaled result meanwhile.
+   * Pass null to follow the CSS size again.
+   */
+  setRenderSize(width: number, height: number): VizFX;
+  setRenderSize(size: null): VizFX;
+  setRenderSize(width: number | null, height?: number): VizFX {
+    this.renderSize =
+      width === null ? null : { width, height: height ?? width };
+    this.updateDrawingBuffer();
+    return this;
+  }
+
+  /**
+   * Advance the scene by `deltaTime` seconds of scene time and draw one
+   * frame. Use while stopped to drive the scene frame by frame.
+   */
+  step(deltaTime: number): VizFX {
+    if (this.isContextLost()) return this;
+
+    this.clock.advance(deltaTime, this.updateEffects);
+    this.renderFrame();
     return this;
   }
 
+  /**
+   * Draw the current frame and encode it as an image.
+   * The frame is read back in the same task it is drawn, so this works
+   * without `preserveDrawingBuffer`.
+   */
+  captureFrame(type: string = 'image/png', quality?: number): Promise<Blob> {
+    if (this.isContextLost()) {
+      return Promise.reject(new Error('Cannot capture: WebGL context lost'));
+    }
+
+    this.renderFrame();
+
+    const canvas = this.getElement();
+    if (canvas) {
+      return new Promise((resolve, reject) => {
+        canvas.toBlob(
+          blob =>
+            blob ? resolve(blob) : reject(new Error('Canvas encoding failed')),
+          type,
+          quality
+        );
+      });
+    }
+
+    return (this.canvas as OffscreenCanvas).convertToBlob({ type, quality });
+  }
+
+  /**
+   * Whether the animation loop has been started
+   */
+  isStarted(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Describe the scene as versioned JSON data (see VizFX.fromJSON). Every
+   * effect needs a registered `type` and `getOptions()`.
+   */
+  toJSON(): SceneJSON {
+    return {
+      version: SCENE_VERSION,
+      options: pickSceneOptions({
+        ...this.sceneOptions,
+        timeScale: this.clock.timeScale,
+        fixedTimeStep: this.clock.fixedTimeStep ?? undefined,
+      }),
+      effects: this.sortLayers().map((layer, index) => serializeLayer(layer, index)),
+    };
+  }
+
+  /**
+   * Animate an effect's options (or any object's fields) on the scene clock.
+   * Numbers, vectors, hex colours and arrays of them are supported. Running
+   * tweens of the same properties on the same target are stopped.
+   */
+  tween<T extends object>(
+    target: T,
+    to: AnimatableProperties<T>,
+    options?: TweenOptions
+  ): Tween<T> {
+    const tween = new Tween(target, to, options);
+
+    for (const animation of this.animations) {
+      if (
+        animation instanceof Tween &&
+        animation.target === target &&
+        animation.keys.some(key => tween.keys.includes(key))
+      ) {
+        animation.stop();
+      }
+    }
+
+    return this.play(tween);
+  }
+
+  /**
+   * Create a timeline that plays on the scene clock. Add steps right away,
+   * before the next frame.
+   */
+  timeline(options?: TimelineOptions): Timeline {
+    return this.play(new Timeline(options));
+  }
+
+  /**
+   * Advance any animation with the scene clock until it finishes
+   */
+  play<A extends Animation>(animation: A): A {
+    this.animations.push(animation);
+    return animation;
+  }
+
+  /**
+   * Get the scene clock (pause, seek, time scale, fixed step)
+   */
+  getClock(): Clock {
+    return this.clock;
+  }
+
   /**
    * Get the interaction manager
    */
@@ -198,7 +1118,7 @@ export class VizFX {
   /**
    * Get the canvas element
    */
-  getCanvas(): HTMLCanvasElement {
+  getCanvas(): HTMLCanvasElement | OffscreenCanvas {
     return this.canvas;
   }
 
@@ -209,25 +1129,146 @@ export class VizFX {
     return this.gl;
   }
 
+  /**
+   * Get the capabilities of the active rendering backend
+   */
+  getCapabilities(): RendererCapabilities | null {
+    return this.capabilities;
+  }
+
+  /**
+   * Whether reduced-motion policies are in effect
+   */
+  isReducedMotion(): boolean {
+    if (this.reducedMotion === 'auto') {
+      return this.reducedMotionQuery?.matches ?? false;
+    }
+    return this.reducedMotion;
+  }
+
+  /**
+   * Force reduced motion on or off (e.g. from a site setting), or follow the
+   * user's preference again with 'auto'
+   */
+  setReducedMotion(value: boolean | 'auto'): VizFX {
+    const previous = this.isReducedMotion();
+    this.reducedMotion = value;
+
+    const reduced = this.isReducedMotion();
+    if (reduced !== previous) {
+      this.events.emit('motionchange', { reduced });
+    }
+    return this;
+  }
+
+  /**
+   * Pause while the canvas can't be seen, for hosts that watch its
+   * visibility themselves (VizFXWorker does this for its worker). Unlike
+   * stop(), this doesn't change whether the loop counts as running.
+   */
+  setHidden(hidden: boolean): VizFX {
+    if (hidden) {
+      this.suspend('host');
+    } else {
+      this.resume('host');
+    }
+    return this;
+  }
+
+  /**
+   * Add an accessible pause/play button for the animation. Remove it with
+   * its destroy() method.
+   */
+  createPauseControl(options?: PauseControlOptions): PauseControl {
+    return new PauseControl(this, options);
+  }
+
+  /**
+   * Frame rate, frame time percentiles, per-effect CPU time and GL upload
+   * counters over roughly the last two seconds. Collection starts with the
+   * first call unless the `stats` option is set, so the first snapshot may
+   * be empty.
+   */
+  getStats(): VizFXStats {
+    return this.enableStats().getStats(this.sortLayers().map(layer => layer.effect));
+  }
+
+  /**
+   * Show the numbers from getStats() in a small overlay on the canvas.
+   * Remove it with its destroy() method.
+   */
+  showStats(options?: StatsOverlayOptions): StatsOverlay {
+    this.enableStats();
+    return new StatsOverlay(this, options);
+  }
+
+  private enableStats(): StatsCollector {
+    if (!this.stats) {
+      this.stats = new StatsCollector();
+      if (this.gl) this.stats.instrument(this.gl);
+    }
+    return this.stats;
+  }
+
   /**
    * Destroy and clean up
    */
   destroy(): void {
     this.stop();
 
+    for (const animation of this.animations) {
+      animation.stop();
+    }
+    this.animations = [];
+
     if (this.gl) {
-      for (const effect of this.effects) {
+      for (const { effect } of this.layers) {
         effect.destroy(this.gl);
       }
+      this.postProcess?.destroy(this.gl);
+      this.compositor.destroy(this.gl);
     }
 
-    this.effects = [];
+    this.layers = [];
+    this.postProcess = null;
+    this.stats?.uninstrument();
+    this.stats = null;
+    this.setFallbackBackground('');
+
+    if (this.visibilityObserver) {
+      this.visibilityObserver.disconnect();
+      this.visibilityObserver = null;
+    }
+    if (typeof document !== 'undefined') {
+      document.removeEventListener(
+        'visibilitychange',
+        this.handleVisibilityChange
+      );
+    }
+
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.removeEventListener(
+      'webglcontextrestored',
+      this.handleContextRestored
+    );
+    this.events.clear();
+    this.reducedMotionQuery?.removeEventListener(
+      'change',
+      this.handleMotionQueryChange
+    );
+    this.reducedMotionQuery = null;
 
     if (this.interactionManager) {
       this.interactionManager.destroy();
       this.interactionManager = null;
     }
 
-    window.removeEventListener('resize', () => this.resize());
+    if (this.resizeObserver) {
+      this.resizeObserver.disconnect();
+      this.resizeObserver = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('resize', this.handleWindowResize);
+    }
   }
 }
@@ -0,0 +1,125 @@
+/**
+ * Renderer capability detection
+ */
+
+export type RenderBackend = 'webgl2' | 'webgl1';
+
+/**
+ * What the current context can do. Effects query this to pick a faster path
+ * when WebGL2 (or the equivalent WebGL1 extension) is available.
+ */
+export interface RendererCapabilities {
+  backend: RenderBackend;
+  /** Instanced drawing (WebGL2 or ANGLE_instanced_arrays) */
+  instancing: boolean;
+  /** Vertex array objects (WebGL2 or OES_vertex_array_object) */
+  vertexArrayObjects: boolean;
+  /** Float textures can be sampled (WebGL2 or OES_texture_float) */
+  floatTextures: boolean;
+  /** Float textures can be rendered to through a framebuffer */
+  floatRenderTargets: boolean;
+  /** Integer texel lookups in shaders (GLSL ES 3.00 only) */
+  texelFetch: boolean;
+  maxTextureSize: number;
+  maxVertexAttribs: number;
+  /** Textures a vertex shader can sample; 0 means no vertex texture fetch */
+  maxVertexTextureUnits: number;
+  maxPointSize: number;
+}
+
+const cache = new WeakMap<WebGLRenderingContext, RendererCapabilities>();
+
+/**
+ * Check whether a context is a WebGL2 context
+ */
+export function isWebGL2(
+  gl: WebGLRenderingContext
+): gl is WebGLRenderingContext & WebGL2RenderingContext {
+  return (
+    typeof WebGL2RenderingContext !== 'undefined' &&
+    gl instanceof WebGL2RenderingContext
+  );
+}
+
+/**
+ * Detect (and cache) the capabilities of a context.
+ * Querying an extension also enables it, so this must run before it is used.
+ */
+export function getCapabilities(
+  gl: WebGLRenderingContext
+): RendererCapabilities {
+  const cached = cache.get(gl);
+  if (cached) return cached;
+
+  const webgl2 = isWebGL2(gl);
+  const pointSizeRange = gl.getParameter(gl.ALIASED_POINT_SIZE_RANGE) as
+    | Float32Array
+    | null;
+
+  const floatTextures = webgl2 || !!gl.getExtension('OES_texture_float');
+
+  // Enabling the colour buffer extension is what makes float targets legal
+  gl.getExtension(webgl2 ? 'EXT_color_buffer_float' : 'WEBGL_color_buffer_float');
+
+  const capabilities: RendererCapabilities = {
+    backend: webgl2 ? 'webgl2' : 'webgl1',
+    instancing: webgl2 || !!gl.getExtension('ANGLE_instanced_arrays'),
+    vertexArrayObjects:
+      webgl2 || !!gl.getExtension('OES_vertex_array_object'),
+    floatTextures,
+    floatRenderTargets: floatTextures && probeFloatRenderTarget(gl),
+    texelFetch: webgl2,
+    maxTextureSize: gl.getParameter(gl.MAX_TEXTURE_SIZE) as number,
+    maxVertexAttribs: gl.getParameter(gl.MAX_VERTEX_ATTRIBS) as number,
+    maxVertexTextureUnits: gl.getParameter(gl.MAX_VERTEX_TEXTURE_IMAGE_UNITS) as number,
+    maxPointSize: pointSizeRange ? pointSizeRange[1] : 1,
+  };
+
+  cache.set(gl, capabilities);
+  return capabilities;
+}
+
+/**
+ * Forget cached capabilities, e.g. after a context restore where extensions
+ * must be enabled again.
+ */
+export function resetCapabilities(gl: WebGLRenderingContext): void {
+  cache.delete(gl);
+}
+
+/**
+ * Some WebGL1 drivers render to float textures without advertising
+ * WEBGL_color_buffer_float, and some advertise it but fail. Test directly.
+ */
+function probeFloatRenderTarget(gl: WebGLRenderingContext): boolean {
+  const texture = gl.createTexture();
+  const framebuffer = gl.createFramebuffer();
+  if (!texture || !framebuffer) return false;
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  if (isWebGL2(gl)) {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA32F, 1, 1, 0, gl.RGBA, gl.FLOAT, null);
+  } else {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.FLOAT, null);
+  }
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(
+    gl.FRAMEBUFFER,
+    gl.COLOR_ATTACHMENT0,
+    gl.TEXTURE_2D,
+    texture,
+    0
+  );
+  const complete =
+    gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+  gl.deleteFramebuffer(framebuffer);
+  gl.deleteTexture(texture);
+
+  return complete;
+}
@@ -0,0 +1,49 @@
+/**
+ * Reduced motion - How effects behave when the user prefers less motion
+ */
+
+/**
+ * What an effect does while motion is reduced:
+ * - 'static': hold the current frame
+ * - 'slow': keep animating at a fraction of the speed
+ * - 'disable': stop updating and drawing it
+ * - 'animate': ignore the preference (for effects that barely move)
+ */
+export type ReducedMotionPolicy = 'static' | 'slow' | 'disable' | 'animate';
+
+export const REDUCED_MOTION_POLICIES: readonly ReducedMotionPolicy[] = [
+  'static',
+  'slow',
+  'disable',
+  'animate',
+];
+
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * The user's reduced-motion media query, or null where there is none
+ * (workers, SSR)
+ */
+export function getReducedMotionQuery(): MediaQueryList | null {
+  return typeof matchMedia !== 'undefined' ? matchMedia(REDUCED_MOTION_QUERY) : null;
+}
+
+/**
+ * Speed factor for a policy while motion is reduced, or null when the
+ * effect is disabled
+ */
+export function getMotionScale(
+  policy: ReducedMotionPolicy,
+  slowScale: number
+): number | null {
+  switch (policy) {
+    case 'static':
+      return 0;
+    case 'slow':
+      return slowScale;
+    case 'disable':
+      return null;
+    case 'animate':
+      return 1;
+  }
+}
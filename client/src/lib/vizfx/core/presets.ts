@@ -0,0 +1,73 @@
+/**
+ * Scene presets - Named scenes that can be loaded by name, e.g. from the
+ * <viz-fx scene="aurora"> attribute
+ */
+
+import { SceneJSON, parseScene } from './scene';
+
+const presets = new Map<string, SceneJSON>();
+
+/**
+ * Register a named scene. The scene is validated now, so mistakes show up
+ * at registration rather than when a page first uses it. Registering an
+ * existing name replaces it.
+ */
+export function registerScenePreset(name: string, scene: SceneJSON | string): void {
+  presets.set(name, parseScene(scene));
+}
+
+/**
+ * Look up a registered preset
+ */
+export function getScenePreset(name: string): SceneJSON | undefined {
+  return presets.get(name);
+}
+
+/**
+ * Names of all registered presets
+ */
+export function getScenePresetNames(): string[] {
+  return Array.from(presets.keys());
+}
+
+registerScenePreset('aurora', {
+  version: 1,
+  effects: [
+    {
+      type: 'gradient-mesh',
+      options: { colors: ['#667eea', '#764ba2', '#f093fb', '#4facfe'], speed: 0.3, complexity: 2.5 },
+    },
+    {
+      type: 'floating-particles',
+      options: { count: 50, color: '#ffffff', size: 2, speed: 15, connectionDistance: 120 },
+      layer: { blendMode: 'additive' },
+    },
+  ],
+});
+registerScenePreset('network', {
+  version: 1,
+  effects: [
+    {
+      type: 'floating-particles',
+      options: { count: 80, color: '#4facfe', size: 3, speed: 25, connectionDistance: 150 },
+    },
+  ],
+});
+registerScenePreset('ocean', {
+  version: 1,
+  effects: [
+    {
+      type: 'wave-effect',
+      options: { amplitude: 0.08, frequency: 4, speed: 1.2, color1: '#6366f1', color2: '#8b5cf6' },
+    },
+  ],
+});
+registerScenePreset('sunset', {
+  version: 1,
+  effects: [
+    {
+      type: 'gradient-mesh',
+      options: { colors: ['#ff6b6b', '#4ecdc4', '#45b7d1', '#f7b731'], speed: 0.6, complexity: 3.5 },
+    },
+  ],
+});
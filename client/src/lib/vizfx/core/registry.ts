@@ -0,0 +1,156 @@
+/**
+ * Effect registry - Maps effect type names to factories and option metadata,
+ * so scenes can be described as data and tools can build controls
+ */
+
+import { Effect } from './Effect';
+import { ParticleSystem, particleSystemSchema } from '../effects/ParticleSystem';
+import { WaveEffect, waveEffectSchema } from '../effects/WaveEffect';
+import {
+  FloatingParticles,
+  floatingParticlesSchema,
+} from '../effects/FloatingParticles';
+import { GradientMesh, gradientMeshSchema } from '../effects/GradientMesh';
+
+/**
+ * Value kinds an effect option can hold. Colours are `#rrggbb` strings,
+ * vectors are `{ x, y }` objects and objects are `{ type, ...fields }` (or
+ * null) with the fields of their type listed in `variants`; `object[]` is
+ * a list of them. Keyframes are
+ * arrays of values or `{ at, value, easing }` stops (or null), with values
+ * of type `keyframeType`.
+ */
+export type OptionType =
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'string'
+  | 'color'
+  | 'color[]'
+  | 'vec2'
+  | 'object'
+  | 'object[]'
+  | 'keyframes';
+
+export interface OptionSchema {
+  type: OptionType;
+  /** Allowed range for numbers; values outside it are rejected */
+  min?: number;
+  max?: number;
+  /** Suggested increment for sliders */
+  step?: number;
+  /** Value used when the option is omitted */
+  default?: unknown;
+  /** Human-readable explanation for tooling */
+  description?: string;
+  /** Allowed values for string options */
+  values?: readonly string[];
+  /** Also accept null, e.g. for an option that can be unset */
+  nullable?: boolean;
+  /** Fields of each `type` an object (or object[]) option can have */
+  variants?: Record<string, EffectSchema>;
+  /** Value type of keyframes (default: 'number') */
+  keyframeType?: 'number' | 'color';
+}
+
+/**
+ * Option name to metadata. Options not listed are rejected when loading.
+ */
+export type EffectSchema = Record<string, OptionSchema>;
+
+/**
+ * Create an effect from validated options. Options with a schema default
+ * are always present.
+ */
+export type EffectFactory = (options: Record<string, unknown>) => Effect;
+
+export interface EffectRegistration {
+  type: string;
+  factory: EffectFactory;
+  schema: EffectSchema;
+}
+
+const registry = new Map<string, EffectRegistration>();
+
+/**
+ * Type and creation options of effects made through the registry, for
+ * effects that don't describe themselves
+ */
+const createdEffects = new WeakMap<
+  Effect,
+  { type: string; options: Record<string, unknown> }
+>();
+
+/**
+ * Register an effect type. Registering an existing type replaces it, which
+ * keeps hot module reloading working.
+ */
+export function registerEffectType(
+  type: string,
+  factory: EffectFactory,
+  schema: EffectSchema
+): void {
+  registry.set(type, { type, factory, schema });
+}
+
+/**
+ * Look up a registered effect type
+ */
+export function getEffectRegistration(
+  type: string
+): EffectRegistration | undefined {
+  return registry.get(type);
+}
+
+/**
+ * Names of all registered effect types
+ */
+export function getEffectTypes(): string[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Remember how a registry-created effect was made
+ */
+export function trackEffect(
+  effect: Effect,
+  type: string,
+  options: Record<string, unknown>
+): void {
+  createdEffects.set(effect, { type, options });
+}
+
+/**
+ * Type and current options of an effect, or null if it can't be described.
+ * Prefers the effect's own `type` and `getOptions()`.
+ */
+export function describeEffect(
+  effect: Effect
+): { type: string; options: object } | null {
+  const created = createdEffects.get(effect);
+  const type = effect.type ?? created?.type;
+  const options = effect.getOptions?.() ?? created?.options;
+
+  return type && options ? { type, options } : null;
+}
+
+registerEffectType(
+  'particle-system',
+  options => new ParticleSystem(options),
+  particleSystemSchema
+);
+registerEffectType(
+  'wave-effect',
+  options => new WaveEffect(options),
+  waveEffectSchema
+);
+registerEffectType(
+  'floating-particles',
+  options => new FloatingParticles(options),
+  floatingParticlesSchema
+);
+registerEffectType(
+  'gradient-mesh',
+  options => new GradientMesh(options),
+  gradientMeshSchema
+);
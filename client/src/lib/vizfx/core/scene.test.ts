@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Layer } from './Layer';
+import { VizFX } from './VizFX';
+import { getEffectTypes } from './registry';
+import {
+  SCENE_VERSION,
+  SceneValidationError,
+  createEffect,
+  parseScene,
+  serializeLayer,
+} from './scene';
+
+/**
+ * Save an effect as scene JSON text and load it back
+ */
+function roundTrip(layer: Layer) {
+  const json = JSON.stringify({ version: SCENE_VERSION, effects: [serializeLayer(layer, 0)] });
+  return parseScene(json).effects[0];
+}
+
+describe('scene format', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it.each(getEffectTypes())('round-trips a default %s', type => {
+    const effect = createEffect({ type });
+    const saved = serializeLayer(new Layer(effect), 0);
+    const loaded = roundTrip(new Layer(effect));
+
+    expect(loaded.type).toBe(type);
+    expect(JSON.parse(JSON.stringify(loaded.options))).toEqual(saved.options);
+    // Loading it creates an effect that saves the same way
+    expect(serializeLayer(new Layer(createEffect(loaded)), 0)).toEqual(saved);
+  });
+
+  it('round-trips layer settings', () => {
+    const layer = new Layer(createEffect({ type: 'gradient-mesh' }), {
+      zIndex: 3,
+      opacity: 0.5,
+      blendMode: 'screen',
+      reducedMotion: 'disable',
+    });
+
+    expect(roundTrip(layer).layer).toEqual({
+      zIndex: 3,
+      opacity: 0.5,
+      visible: true,
+      blendMode: 'screen',
+      reducedMotion: 'disable',
+    });
+  });
+
+  it('keeps texture URLs, saves no texture as null and leaves out images', () => {
+    // URL textures start loading, which has nothing to load with in Node
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const withUrl = createEffect({
+      type: 'floating-particles',
+      options: { texture: 'data:image/png;base64,AAAA' },
+    });
+    expect(roundTrip(new Layer(withUrl)).options?.texture).toBe('data:image/png;base64,AAAA');
+
+    const withoutTexture = createEffect({ type: 'particle-system' });
+    expect(roundTrip(new Layer(withoutTexture)).options?.texture).toBeNull();
+
+    class FakeBitmap {}
+    vi.stubGlobal('ImageBitmap', FakeBitmap);
+    const withImage = createEffect({ type: 'particle-system' });
+    withImage.setOptions?.({ texture: new FakeBitmap() });
+    expect(roundTrip(new Layer(withImage)).options).not.toHaveProperty('texture');
+  });
+
+  it('saves the emitter position as set, not as centred on resize', () => {
+    const centred = createEffect({ type: 'particle-system' });
+    centred.resize(800, 600);
+    expect(roundTrip(new Layer(centred)).options?.emitterPosition).toEqual({ x: 0, y: 0 });
+
+    const placed = createEffect({
+      type: 'particle-system',
+      options: { emitterPosition: { x: 120, y: 40 } },
+    });
+    placed.resize(800, 600);
+    expect(roundTrip(new Layer(placed)).options?.emitterPosition).toEqual({ x: 120, y: 40 });
+  });
+
+  it('saves layers in drawing order, whether or not a frame has rendered', () => {
+    // An offscreen canvas with the Canvas 2D backend, so nothing draws
+    const canvas = {
+      width: 0,
+      height: 0,
+      getContext: () => ({}),
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    } as unknown as OffscreenCanvas;
+    const viz = new VizFX({ canvas, backend: 'canvas2d' });
+    viz.addEffect(createEffect({ type: 'gradient-mesh' }), { zIndex: 2 });
+    viz.addEffect(createEffect({ type: 'wave-effect' }), { zIndex: 1 });
+    viz.addEffect(createEffect({ type: 'floating-particles' }), { zIndex: 1 });
+
+    const order = ['wave-effect', 'floating-particles', 'gradient-mesh'];
+    expect(viz.toJSON().effects.map(effect => effect.type)).toEqual(order);
+    viz.getLayers();
+    expect(viz.toJSON().effects.map(effect => effect.type)).toEqual(order);
+  });
+
+  it('names the offending field', () => {
+    const scene = {
+      version: SCENE_VERSION,
+      effects: [{ type: 'gradient-mesh', options: { colors: ['#ffffff', 'blue'] } }],
+    };
+
+    expect(() => parseScene(scene)).toThrow(SceneValidationError);
+    expect(() => parseScene(scene)).toThrow('effects[0].options.colors[1]');
+  });
+
+  it('rejects other versions and unknown effects', () => {
+    expect(() => parseScene({ version: 99, effects: [] })).toThrow('unsupported version 99');
+    expect(() =>
+      parseScene({ version: SCENE_VERSION, effects: [{ type: 'lava-lamp' }] })
+    ).toThrow('unknown effect type "lava-lamp"');
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * Scene format - Versioned JSON description of a VizFX scene, with
+ * validation that names the offending field
+ */
+
+import type { VizFXOptions } from './VizFX';
+import { Effect } from './Effect';
+import { BLEND_MODES, Layer, LayerOptions } from './Layer';
+import { REDUCED_MOTION_POLICIES } from './motion';
+import {
+  EffectSchema,
+  OptionSchema,
+  describeEffect,
+  getEffectRegistration,
+  trackEffect,
+} from './registry';
+import { Vec2 } from '../utils/math';
+import { isImageObject } from '../utils/texture';
+import { EASINGS } from '../animation/easing';
+
+/**
+ * Version written by toJSON() and the only one fromJSON() reads
+ */
+export const SCENE_VERSION = 1;
+
+/**
+ * VizFX options stored with a scene. Canvas, size and DPR belong to the
+ * page showing the scene, so they are left out.
+ */
+export type SceneOptions = Pick<
+  VizFXOptions,
+  | 'alpha'
+  | 'antialias'
+  | 'backend'
+  | 'targetFps'
+  | 'pauseWhenHidden'
+  | 'maxDpr'
+  | 'resolutionScale'
+  | 'timeScale'
+  | 'fixedTimeStep'
+  | 'reducedMotionSpeed'
+>;
+
+export interface SceneEffectJSON {
+  /** Registered effect type, e.g. 'gradient-mesh' */
+  type: string;
+  options?: Record<string, unknown>;
+  layer?: LayerOptions;
+}
+
+export interface SceneJSON {
+  version: number;
+  options?: SceneOptions;
+  /** Effects in draw order */
+  effects: SceneEffectJSON[];
+}
+
+export class SceneValidationError extends Error {
+  /** Location of the bad value, e.g. `effects[1].options.colors[2]` */
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'SceneValidationError';
+    this.path = path;
+  }
+}
+
+const sceneOptionsSchema: EffectSchema = {
+  alpha: { type: 'boolean' },
+  antialias: { type: 'boolean' },
+  backend: { type: 'string', values: ['webgl2', 'webgl1', 'canvas2d', 'auto'] },
+  targetFps: { type: 'number', min: 1 },
+  pauseWhenHidden: { type: 'boolean' },
+  maxDpr: { type: 'number', min: 0.1 },
+  resolutionScale: { type: 'number', min: 0.1 },
+  timeScale: { type: 'number', min: 0 },
+  fixedTimeStep: { type: 'number', min: 0 },
+  reducedMotionSpeed: { type: 'number', min: 0, max: 1 },
+};
+
+const layerSchema: EffectSchema = {
+  zIndex: { type: 'number' },
+  opacity: { type: 'number', min: 0, max: 1 },
+  visible: { type: 'boolean' },
+  blendMode: { type: 'string', values: BLEND_MODES },
+  reducedMotion: { type: 'string', values: REDUCED_MOTION_POLICIES },
+};
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Parse and validate a scene. Vec2 options come back as Vec2 instances.
+ * Throws SceneValidationError on the first invalid field.
+ */
+export function parseScene(input: SceneJSON | string): SceneJSON {
+  let json: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      json = JSON.parse(input);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new SceneValidationError('scene', `invalid JSON (${reason})`);
+    }
+  }
+
+  if (!isObject(json)) {
+    throw new SceneValidationError('scene', `expected an object, got ${describe(json)}`);
+  }
+
+  if (json.version !== SCENE_VERSION) {
+    throw new SceneValidationError(
+      'version',
+      `unsupported version ${describe(json.version)} (expected ${SCENE_VERSION})`
+    );
+  }
+
+  const options = validateOptions(json.options, sceneOptionsSchema, 'options');
+
+  if (!Array.isArray(json.effects)) {
+    throw new SceneValidationError(
+      'effects',
+      `expected an array, got ${describe(json.effects)}`
+    );
+  }
+
+  const effects = json.effects.map((effect: unknown, index: number) => {
+    const path = `effects[${index}]`;
+    if (!isObject(effect)) {
+      throw new SceneValidationError(path, `expected an object, got ${describe(effect)}`);
+    }
+
+    return {
+      type: validateType(effect.type, `${path}.type`),
+      options: validateEffectOptions(effect.type as string, effect.options, `${path}.options`),
+      layer: validateOptions(effect.layer, layerSchema, `${path}.layer`) as LayerOptions,
+    };
+  });
+
+  return { version: SCENE_VERSION, options: options as SceneOptions, effects };
+}
+
+/**
+ * Validate a single effect description and instantiate it
+ */
+export function createEffect(
+  config: { type: string; options?: object },
+  path: string = 'effect'
+): Effect {
+  const type = validateType(config.type, `${path}.type`);
+  const options = validateEffectOptions(type, config.options, `${path}.options`);
+  const effect = getEffectRegistration(type)!.factory(options);
+  trackEffect(effect, type, options);
+  return effect;
+}
+
+/**
+ * Validate some options of an effect type without filling in defaults,
+ * e.g. before passing them to setOptions()
+ */
+export function parseEffectOptions(
+  type: string,
+  options: object,
+  path: string = 'options'
+): Record<string, unknown> {
+  const schema = getEffectRegistration(validateType(type, 'type'))!.schema;
+  return validateOptions(options, schema, path);
+}
+
+/**
+ * Validate layer settings
+ */
+export function parseLayerOptions(options: object, path: string = 'layer'): LayerOptions {
+  return validateOptions(options, layerSchema, path) as LayerOptions;
+}
+
+/**
+ * Describe a layer's effect as scene data
+ */
+export function serializeLayer(layer: Layer, index: number): SceneEffectJSON {
+  const description = describeEffect(layer.effect);
+  if (!description) {
+    throw new Error(
+      `Cannot serialize effect at index ${index}: it has no type or getOptions()`
+    );
+  }
+
+  return {
+    type: description.type,
+    // Round-trip through JSON so Vec2s and arrays become plain data. Image
+    // textures are dropped; only URLs can be saved.
+    options: JSON.parse(
+      JSON.stringify(description.options, (key, value) =>
+        isImageObject(value) ? undefined : value
+      )
+    ),
+    layer: {
+      zIndex: layer.zIndex,
+      opacity: layer.opacity,
+      visible: layer.visible,
+      blendMode: layer.blendMode,
+      // Omitted when the effect's default applies
+      ...(layer.reducedMotion && { reducedMotion: layer.reducedMotion }),
+    },
+  };
+}
+
+/**
+ * The scene-relevant subset of VizFX options
+ */
+export function pickSceneOptions(options: VizFXOptions): SceneOptions {
+  const picked: Record<string, unknown> = {};
+  for (const key of Object.keys(sceneOptionsSchema)) {
+    const value = options[key as keyof VizFXOptions];
+    if (value !== undefined && value !== null) picked[key] = value;
+  }
+  return picked as SceneOptions;
+}
+
+function validateType(type: unknown, path: string): string {
+  if (typeof type !== 'string') {
+    throw new SceneValidationError(path, `expected a string, got ${describe(type)}`);
+  }
+  if (!getEffectRegistration(type)) {
+    throw new SceneValidationError(path, `unknown effect type "${type}"`);
+  }
+  return type;
+}
+
+function validateEffectOptions(
+  type: string,
+  options: unknown,
+  path: string
+): Record<string, unknown> {
+  const schema = getEffectRegistration(type)!.schema;
+  const result = validateOptions(options, schema, path);
+
+  // Fill in schema defaults so factories always see complete options
+  for (const [key, field] of Object.entries(schema)) {
+    if (result[key] === undefined && field.default !== undefined) {
+      result[key] = validateValue(field.default, field, `${path}.${key}`);
+    }
+  }
+
+  return result;
+}
+
+function validateOptions(
+  options: unknown,
+  schema: EffectSchema,
+  path: string
+): Record<string, unknown> {
+  if (options === undefined) return {};
+  if (!isObject(options)) {
+    throw new SceneValidationError(path, `expected an object, got ${describe(options)}`);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(options)) {
+    const field = schema[key];
+    if (!field) {
+      throw new SceneValidationError(`${path}.${key}`, 'unknown option');
+    }
+    if (value !== undefined) {
+      result[key] = validateValue(value, field, `${path}.${key}`);
+    }
+  }
+
+  return result;
+}
+
+function validateValue(value: unknown, schema: OptionSchema, path: string): unknown {
+  const fail = (expected: string): never => {
+    throw new SceneValidationError(path, `expected ${expected}, got ${describe(value)}`);
+  };
+
+  if (value === null && schema.nullable) return null;
+
+  switch (schema.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail('a number');
+      return validateRange(value as number, schema, path);
+    case 'integer':
+      if (!Number.isInteger(value)) fail('an integer');
+      return validateRange(value as number, schema, path);
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('a boolean');
+      return value;
+    case 'string':
+      if (typeof value !== 'string') fail('a string');
+      if (schema.values && !schema.values.includes(value as string)) {
+        fail(`one of ${schema.values.map(v => `"${v}"`).join(', ')}`);
+      }
+      return value;
+    case 'color':
+      if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+        fail('a hex colour like "#ff8800"');
+      }
+      return value;
+    case 'color[]':
+      if (!Array.isArray(value)) fail('an array of hex colours');
+      return (value as unknown[]).map((item, index) =>
+        validateValue(item, { type: 'color' }, `${path}[${index}]`)
+      );
+    case 'vec2':
+      if (
+        !isObject(value) ||
+        typeof value.x !== 'number' ||
+        typeof value.y !== 'number'
+      ) {
+        fail('an { x, y } object');
+      }
+      return new Vec2((value as Vec2).x, (value as Vec2).y);
+    case 'object':
+      // null leaves the choice to the effect
+      if (value === null) return null;
+      if (!isObject(value)) fail('an object');
+      return validateVariant(value as Record<string, unknown>, schema, path);
+    case 'object[]':
+      if (!Array.isArray(value)) fail('an array of objects');
+      return (value as unknown[]).map((item, index) => {
+        if (!isObject(item)) {
+          throw new SceneValidationError(
+            `${path}[${index}]`,
+            `expected an object, got ${describe(item)}`
+          );
+        }
+        return validateVariant(item, schema, `${path}[${index}]`);
+      });
+    case 'keyframes':
+      if (value === null) return null;
+      if (!Array.isArray(value) || value.length === 0) fail('a non-empty array of keyframes');
+      return (value as unknown[]).map((item, index) =>
+        validateKeyframe(item, schema, `${path}[${index}]`)
+      );
+  }
+}
+
+/**
+ * A `{ type, ...fields }` object with the fields of its variant
+ */
+function validateVariant(
+  value: Record<string, unknown>,
+  schema: OptionSchema,
+  path: string
+): Record<string, unknown> {
+  const { type, ...fields } = value;
+  const variants = schema.variants ?? {};
+  const names = Object.keys(variants);
+  if (typeof type !== 'string' || !variants[type]) {
+    throw new SceneValidationError(
+      `${path}.type`,
+      `expected one of ${names.map(name => `"${name}"`).join(', ')}, got ${describe(type)}`
+    );
+  }
+  return { type, ...validateOptions(fields, variants[type], path) };
+}
+
+/**
+ * A bare value, or an `{ at, value, easing }` stop
+ */
+function validateKeyframe(item: unknown, schema: OptionSchema, path: string): unknown {
+  const valueSchema: OptionSchema = { type: schema.keyframeType ?? 'number' };
+  if (!isObject(item)) return validateValue(item, valueSchema, path);
+
+  const { at, value, easing, ...rest } = item;
+  const unknown = Object.keys(rest)[0];
+  if (unknown !== undefined) {
+    throw new SceneValidationError(`${path}.${unknown}`, 'unknown option');
+  }
+
+  return {
+    at: validateValue(at, { type: 'number', min: 0, max: 1 }, `${path}.at`),
+    value: validateValue(value, valueSchema, `${path}.value`),
+    ...(easing !== undefined && {
+      easing: validateValue(
+        easing,
+        { type: 'string', values: Object.keys(EASINGS) },
+        `${path}.easing`
+      ),
+    }),
+  };
+}
+
+function validateRange(value: number, schema: OptionSchema, path: string): number {
+  const { min, max } = schema;
+  if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    const range =
+      min !== undefined && max !== undefined
+        ? `between ${min} and ${max}`
+        : min !== undefined
+          ? `at least ${min}`
+          : `at most ${max}`;
+    throw new SceneValidationError(path, `expected a value ${range}, got ${value}`);
+  }
+  return value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  return JSON.stringify(value) ?? String(value);
+}
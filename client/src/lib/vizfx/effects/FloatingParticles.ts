@@ -2,44 +2,135 @@
  * Floating Particles Effect - Ambient background particles with connections
  */
 
-import { Effect } from '../core/Effect';
+import { Effect, EffectOptions } from '../core/Effect';
+import { ReducedMotionPolicy } from '../core/motion';
+import type { EffectSchema } from '../core/registry';
+import { assignOptions } from '../utils/options';
+import { QUALITY_DETAIL_SCALE, QualityLevel } from '../core/QualityGovernor';
 import { Vec2, random } from '../utils/math';
 import { createProgram } from '../utils/shaders';
-
-export interface FloatingParticlesOptions {
+import { Canvas2DContext, getSoftDot, toRgba } from '../utils/canvas2d';
+import { SpriteTexture } from '../utils/texture';
+import type { InteractionManager } from '../utils/interaction';
+import { FORCE_FIELDS, ForceField, ForceFields } from './forces';
+import {
+  SPRITE_SHADER,
+  SpriteOptions,
+  SpriteState,
+  advanceSprite,
+  applySpriteUniforms,
+  createSpriteState,
+  drawSprite,
+  spriteDefaults,
+  spriteFrameCount,
+  spriteSchema,
+} from './sprites';
+
+export interface FloatingParticlesOptions extends EffectOptions, SpriteOptions {
   count?: number;
   color?: string;
   size?: number;
   speed?: number;
   connectionDistance?: number;
   showConnections?: boolean;
+  /** Force fields acting on the drifting particles, in order (default: none) */
+  forces?: ForceField[];
 }
 
+/**
+ * Option metadata for scene loading and tooling
+ */
+export const floatingParticlesSchema: EffectSchema = {
+  enabled: {
+    type: 'boolean',
+    default: true,
+    description: 'Update and draw the effect',
+  },
+  count: {
+    type: 'integer',
+    min: 0,
+    max: 2000,
+    step: 1,
+    default: 100,
+    description: 'Number of particles',
+  },
+  color: { type: 'color', default: '#ffffff', description: 'Particle and line colour' },
+  size: {
+    type: 'number',
+    min: 0.5,
+    max: 20,
+    step: 0.5,
+    default: 2,
+    description: 'Average particle size in pixels',
+  },
+  speed: {
+    type: 'number',
+    min: 0,
+    max: 200,
+    step: 1,
+    default: 20,
+    description: 'Maximum drift speed in pixels per second',
+  },
+  connectionDistance: {
+    type: 'number',
+    min: 0,
+    max: 500,
+    step: 5,
+    default: 150,
+    description: 'Particles closer than this many pixels are connected',
+  },
+  showConnections: {
+    type: 'boolean',
+    default: true,
+    description: 'Draw lines between nearby particles',
+  },
+  forces: {
+    type: 'object[]',
+    variants: FORCE_FIELDS,
+    default: [],
+    description: 'Force fields acting on the particles',
+  },
+  ...spriteSchema,
+};
+
 interface FloatingParticle {
   position: Vec2;
   velocity: Vec2;
   size: number;
+  sprite: SpriteState;
 }
 
 export class FloatingParticles implements Effect {
+  readonly type = 'floating-particles';
+  readonly reducedMotion: ReducedMotionPolicy = 'static';
   private options: Required<FloatingParticlesOptions>;
   private particles: FloatingParticle[] = [];
   private particleProgram: WebGLProgram | null = null;
   private lineProgram: WebGLProgram | null = null;
   private particleBuffer: WebGLBuffer | null = null;
   private lineBuffer: WebGLBuffer | null = null;
+  private spriteTexture: SpriteTexture;
+  private forces: ForceFields;
+  /** Scratch acceleration from the force fields */
+  private acceleration = new Vec2();
   private width: number = 0;
   private height: number = 0;
+  private quality: QualityLevel = 'high';
 
   constructor(options: FloatingParticlesOptions = {}) {
     this.options = {
+      enabled: options.enabled ?? true,
       count: options.count ?? 100,
       color: options.color ?? '#ffffff',
       size: options.size ?? 2,
       speed: options.speed ?? 20,
       connectionDistance: options.connectionDistance ?? 150,
       showConnections: options.showConnections ?? true,
+      forces: options.forces ?? [],
+      ...spriteDefaults(options),
     };
+    this.spriteTexture = new SpriteTexture(this.options.texture);
+    this.forces = new ForceFields(this.options.forces);
   }
 
   init(gl: WebGLRenderingContext): void {
@@ -47,24 +138,29 @@ export class FloatingParticles implements Effect {
     const particleVertexShader = `
       attribute vec2 a_position;
       attribute float a_size;
+      attribute vec2 a_sprite;
+      
+      uniform float u_pointScale;
+      
+      varying vec2 v_sprite;
       
       void main() {
         gl_Position = vec4(a_position, 0.0, 1.0);
-        gl_PointSize = a_size;
+        gl_PointSize = a_size * u_pointScale;
+        v_sprite = a_sprite;
       }
     `;
 
     const particleFragmentShader = `
       precision mediump float;
       uniform vec3 u_color;
+      // Sprite frame and rotation
+      varying vec2 v_sprite;
+      ${SPRITE_SHADER}
       
       void main() {
-        vec2 coord = gl_PointCoord - vec2(0.5);
-        float dist = length(coord);
-        if (dist > 0.5) discard;
-        
-        float alpha = 1.0 - dist * 2.0;
-        gl_FragColor = vec4(u_color, alpha * 0.6);
+        vec4 shape = particleShape(v_sprite.x, v_sprite.y);
+        gl_FragColor = vec4(u_color * shape.rgb, shape.a * 0.6);
       }
     `;
 
@@ -102,6 +198,7 @@ export class FloatingParticles implements Effect {
     // Create buffers
     this.particleBuffer = gl.createBuffer();
     this.lineBuffer = gl.createBuffer();
+    this.spriteTexture.reset();
 
     // Initialize particles
     this.initParticles();
@@ -109,23 +206,72 @@ export class FloatingParticles implements Effect {
 
   private initParticles(): void {
     this.particles = [];
-    for (let i = 0; i < this.options.count; i++) {
-      this.particles.push({
-        position: new Vec2(random(0, this.width), random(0, this.height)),
-        velocity: new Vec2(
-          random(-this.options.speed, this.options.speed),
-          random(-this.options.speed, this.options.speed)
-        ),
-        size: random(this.options.size * 0.5, this.options.size * 1.5),
-      });
+    const count = this.getEffectiveCount();
+    for (let i = 0; i < count; i++) {
+      this.particles.push(this.createParticle());
+    }
+  }
+
+  private createParticle(): FloatingParticle {
+    return {
+      position: new Vec2(random(0, this.width), random(0, this.height)),
+      velocity: this.randomVelocity(),
+      size: this.randomSize(),
+      sprite: createSpriteState(this.options),
+    };
+  }
+
+  private randomVelocity(): Vec2 {
+    return new Vec2(
+      random(-this.options.speed, this.options.speed),
+      random(-this.options.speed, this.options.speed)
+    );
+  }
+
+  private randomSize(): number {
+    return random(this.options.size * 0.5, this.options.size * 1.5);
+  }
+
+  /**
+   * Particle count after quality scaling
+   */
+  private getEffectiveCount(): number {
+    return Math.round(this.options.count * QUALITY_DETAIL_SCALE[this.quality]);
+  }
+
+  setQuality(level: QualityLevel): void {
+    this.quality = level;
+    this.syncCount();
+  }
+
+  /**
+   * Add or drop particles to match the effective count
+   */
+  private syncCount(): void {
+    const count = this.getEffectiveCount();
+    while (this.particles.length < count) {
+      this.particles.push(this.createParticle());
+    }
+    if (this.particles.length > count) {
+      this.particles.length = count;
     }
   }
 
   update(time: number, deltaTime: number): void {
+    const forced = !this.forces.isEmpty();
+    this.forces.update(time);
+
     for (const p of this.particles) {
+      if (forced) {
+        const a = this.forces.apply(p.position, p.velocity, this.acceleration);
+        p.velocity.x += a.x * deltaTime;
+        p.velocity.y += a.y * deltaTime;
+      }
+
       // Update position
       p.position.x += p.velocity.x * deltaTime;
       p.position.y += p.velocity.y * deltaTime;
+      advanceSprite(p.sprite, this.options, deltaTime);
 
       // Wrap around screen edges
       if (p.position.x < 0) p.position.x = this.width;
@@ -140,8 +286,11 @@ export class FloatingParticles implements Effect {
 
     const rgb = this.hexToRgb(this.options.color);
 
-    // Draw connections first (behind particles)
-    if (this.options.showConnections && this.lineProgram && this.lineBuffer) {
+    // Draw connections first (behind particles). The O(n²) pass is the
+    // first thing to go at low quality.
+    const showConnections =
+      this.options.showConnections && this.quality !== 'low';
+    if (showConnections && this.lineProgram && this.lineBuffer) {
       this.renderConnections(gl, rgb);
     }
 
@@ -158,11 +307,13 @@ export class FloatingParticles implements Effect {
     gl.useProgram(this.particleProgram);
 
     // Prepare particle data
+    const frames = spriteFrameCount(this.options);
     const data: number[] = [];
     for (const p of this.particles) {
       const x = (p.position.x / this.width) * 2 - 1;
       const y = (p.position.y / this.height) * 2 - 1;
-      data.push(x, y, p.size);
+      const frame = Math.floor(p.sprite.frame) % frames;
+      data.push(x, y, p.size, frame, p.sprite.angle);
     }
 
     // Upload data
@@ -172,12 +323,19 @@ export class FloatingParticles implements Effect {
     // Set attributes
     const positionLoc = gl.getAttribLocation(this.particleProgram, 'a_position');
     const sizeLoc = gl.getAttribLocation(this.particleProgram, 'a_size');
+    const spriteLoc = gl.getAttribLocation(this.particleProgram, 'a_sprite');
 
     gl.enableVertexAttribArray(positionLoc);
-    gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 12, 0);
+    gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 20, 0);
 
     gl.enableVertexAttribArray(sizeLoc);
-    gl.vertexAttribPointer(sizeLoc, 1, gl.FLOAT, false, 12, 8);
+    gl.vertexAttribPointer(sizeLoc, 1, gl.FLOAT, false, 20, 8);
+
+    gl.enableVertexAttribArray(spriteLoc);
+    gl.vertexAttribPointer(spriteLoc, 2, gl.FLOAT, false, 20, 12);
+
+    // Sprite texture, or soft dots until it has loaded
+    applySpriteUniforms(gl, this.particleProgram, this.spriteTexture, this.options, 0);
 
     // Set color
     const colorLoc = gl.getUniformLocation(this.particleProgram, 'u_color');
@@ -242,12 +400,61 @@ export class FloatingParticles implements Effect {
     gl.drawArrays(gl.LINES, 0, lineData.length / 3);
   }
 
+  render2D(ctx: Canvas2DContext): void {
+    if (this.width === 0 || this.height === 0) return;
+
+    // Device pixels, like gl_PointSize; y points down on a 2D canvas
+    const scale = ctx.canvas.width / this.width;
+    const toX = (x: number) => x * scale;
+    const toY = (y: number) => (this.height - y) * scale;
+    const opacity = ctx.globalAlpha;
+
+    if (this.options.showConnections && this.quality !== 'low') {
+      const maxDist = this.options.connectionDistance;
+      ctx.strokeStyle = toRgba(this.options.color, 1);
+      ctx.lineWidth = 1;
+
+      for (let i = 0; i < this.particles.length; i++) {
+        for (let j = i + 1; j < this.particles.length; j++) {
+          const p1 = this.particles[i].position;
+          const p2 = this.particles[j].position;
+          const dist = p1.distance(p2);
+          if (dist >= maxDist) continue;
+
+          ctx.globalAlpha = opacity * (1 - dist / maxDist) * 0.2;
+          ctx.beginPath();
+          ctx.moveTo(toX(p1.x), toY(p1.y));
+          ctx.lineTo(toX(p2.x), toY(p2.y));
+          ctx.stroke();
+        }
+      }
+    }
+
+    // Textures are drawn untinted
+    const image = this.spriteTexture.getImage();
+    const sprite = image ? null : getSoftDot(this.options.color);
+    ctx.globalAlpha = opacity * 0.6;
+    for (const p of this.particles) {
+      const x = toX(p.position.x);
+      const y = toY(p.position.y);
+      if (image) {
+        drawSprite(ctx, image, this.options, p.sprite, x, y, p.size);
+      } else if (sprite) {
+        const radius = p.size / 2;
+        ctx.drawImage(sprite, x - radius, y - radius, p.size, p.size);
+      }
+    }
+
+    ctx.globalAlpha = opacity;
+  }
+
   resize(width: number, height: number): void {
     const oldWidth = this.width;
     const oldHeight = this.height;
 
     this.width = width;
     this.height = height;
+    this.forces.resize(width, height);
 
     // Scale particle positions
     if (oldWidth > 0 && oldHeight > 0) {
@@ -277,6 +484,7 @@ export class FloatingParticles implements Effect {
       gl.deleteBuffer(this.lineBuffer);
       this.lineBuffer = null;
     }
+    this.spriteTexture.destroy(gl);
   }
 
   private hexToRgb(hex: string): { r: number; g: number; b: number } {
@@ -289,4 +497,63 @@ export class FloatingParticles implements Effect {
         }
       : { r: 1, g: 1, b: 1 };
   }
+
+  /**
+   * Get the current options
+   */
+  getOptions(): FloatingParticlesOptions {
+    return { ...this.options, forces: this.options.forces.map(field => ({ ...field })) };
+  }
+
+  /**
+   * Update options while running. Particles are added or removed to match
+   * `count`, and existing ones are rescaled to a new `speed` or `size`.
+   * A new `texture` replaces the old one once it has loaded.
+   */
+  setOptions(options: FloatingParticlesOptions): void {
+    const previous = { ...this.options };
+    const { forces } = options;
+    const changed = assignOptions(this.options, {
+      ...options,
+      forces: forces && forces.map(field => ({ ...field })),
+    });
+
+    if (changed.has('count')) {
+      this.syncCount();
+    }
+
+    if (changed.has('forces')) {
+      this.forces.setFields(this.options.forces);
+    }
+
+    if (changed.has('texture')) {
+      this.spriteTexture.setSource(this.options.texture);
+    }
+
+    if (changed.has('speed')) {
+      const scale = this.options.speed / previous.speed;
+      for (const p of this.particles) {
+        if (previous.speed > 0) p.velocity.multiply(scale);
+        else p.velocity = this.randomVelocity();
+      }
+    }
+
+    if (changed.has('size')) {
+      const scale = this.options.size / previous.size;
+      for (const p of this.particles) {
+        p.size = previous.size > 0 ? p.size * scale : this.randomSize();
+      }
+    }
+  }
+
+  /**
+   * Pointer source for `pointer` force fields; VizFX calls this
+   */
+  setInteraction(interaction: InteractionManager | null): void {
+    this.forces.setInteraction(interaction);
+  }
+
+  isEnabled(): boolean {
+    return this.options.enabled;
+  }
 }
@@ -2,24 +2,70 @@
  * Gradient Mesh Effect - Animated gradient background
  */
 
-import { Effect } from '../core/Effect';
+import { Effect, EffectOptions } from '../core/Effect';
+import { ReducedMotionPolicy } from '../core/motion';
+import type { EffectSchema } from '../core/registry';
+import { assignOptions } from '../utils/options';
 import { createProgram, createQuad } from '../utils/shaders';
 
-export interface GradientMeshOptions {
+/**
+ * Where the colour blobs of the CSS fallback sit
+ */
+const FALLBACK_SPOTS = ['20% 20%', '80% 25%', '25% 80%', '80% 80%'];
+
+export interface GradientMeshOptions extends EffectOptions {
   colors?: string[];
   speed?: number;
   complexity?: number;
 }
 
+/**
+ * Option metadata for scene loading and tooling
+ */
+export const gradientMeshSchema: EffectSchema = {
+  enabled: {
+    type: 'boolean',
+    default: true,
+    description: 'Update and draw the effect',
+  },
+  colors: {
+    type: 'color[]',
+    default: ['#667eea', '#764ba2', '#f093fb', '#4facfe'],
+    description: 'Up to four colours blended across the canvas',
+  },
+  speed: {
+    type: 'number',
+    min: 0,
+    max: 5,
+    step: 0.05,
+    default: 0.5,
+    description: 'Animation speed',
+  },
+  complexity: {
+    type: 'number',
+    min: 0.5,
+    max: 10,
+    step: 0.1,
+    default: 3,
+    description: 'Noise scale; higher values give more, smaller blobs',
+  },
+};
+
 export class GradientMesh implements Effect {
+  readonly type = 'gradient-mesh';
+  readonly reducedMotion: ReducedMotionPolicy = 'slow';
   private options: Required<GradientMeshOptions>;
   private program: WebGLProgram | null = null;
   private quadBuffer: WebGLBuffer | null = null;
   private width: number = 0;
   private height: number = 0;
+  private time: number = 0;
+  /** Animation progress: time integrated over speed */
+  private phase: number = 0;
 
   constructor(options: GradientMeshOptions = {}) {
     this.options = {
+      enabled: options.enabled ?? true,
       colors: options.colors ?? ['#667eea', '#764ba2', '#f093fb', '#4facfe'],
       speed: options.speed ?? 0.5,
       complexity: options.complexity ?? 3.0,
@@ -42,9 +88,8 @@ export class GradientMesh implements Effect {
     const fragmentShader = `
       precision mediump float;
       
-      uniform float u_time;
+      uniform float u_phase;
       uniform vec2 u_resolution;
-      uniform float u_speed;
       uniform float u_complexity;
       uniform vec3 u_color1;
       uniform vec3 u_color2;
@@ -90,7 +135,7 @@ export class GradientMesh implements Effect {
         vec2 p = uv * u_complexity;
         
         // Animate the noise
-        float t = u_time * u_speed;
+        float t = u_phase;
         p += vec2(cos(t * 0.3), sin(t * 0.2));
         
         // Generate noise values
@@ -120,7 +165,14 @@ export class GradientMesh implements Effect {
   }
 
   update(time: number, deltaTime: number): void {
-    // Animation handled in shader
+    // Speed changes bend the phase instead of rescaling the whole timeline.
+    // Only a seek (a new time without a step) restarts from time * speed.
+    if (deltaTime === 0 && time !== this.time) {
+      this.phase = time * this.options.speed;
+    } else {
+      this.phase += deltaTime * this.options.speed;
+    }
+    this.time = time;
   }
 
   render(gl: WebGLRenderingContext): void {
@@ -142,14 +194,12 @@ export class GradientMesh implements Effect {
     gl.vertexAttribPointer(texCoordLoc, 2, gl.FLOAT, false, 16, 8);
 
     // Set uniforms
-    const timeLoc = gl.getUniformLocation(this.program, 'u_time');
+    const phaseLoc = gl.getUniformLocation(this.program, 'u_phase');
     const resolutionLoc = gl.getUniformLocation(this.program, 'u_resolution');
-    const speedLoc = gl.getUniformLocation(this.program, 'u_speed');
     const complexityLoc = gl.getUniformLocation(this.program, 'u_complexity');
 
-    gl.uniform1f(timeLoc, performance.now() / 1000);
+    gl.uniform1f(phaseLoc, this.phase);
     gl.uniform2f(resolutionLoc, this.width, this.height);
-    gl.uniform1f(speedLoc, this.options.speed);
     gl.uniform1f(complexityLoc, this.options.complexity);
 
     // Set color uniforms
@@ -168,6 +218,21 @@ export class GradientMesh implements Effect {
     gl.drawArrays(gl.TRIANGLES, 0, 6);
   }
 
+  /**
+   * Still stand-in for the fallback renderer: a blob per colour over a
+   * diagonal blend
+   */
+  getFallbackBackground(): string {
+    const colors = this.options.colors.slice(0, 4);
+    if (colors.length === 0) return '';
+
+    const blobs = colors.map(
+      (color, i) => `radial-gradient(circle at ${FALLBACK_SPOTS[i]}, ${color}, transparent 70%)`
+    );
+    const base = `linear-gradient(135deg, ${colors[0]}, ${colors[colors.length - 1]})`;
+    return [...blobs, base].join(', ');
+  }
+
   resize(width: number, height: number): void {
     this.width = width;
     this.height = height;
@@ -194,4 +259,25 @@ export class GradientMesh implements Effect {
         }
       : { r: 1, g: 1, b: 1 };
   }
+
+  /**
+   * Get the current options
+   */
+  getOptions(): GradientMeshOptions {
+    return { ...this.options, colors: [...this.options.colors] };
+  }
+
+  /**
+   * Update options while running. Changes apply from the next frame.
+   */
+  setOptions(options: GradientMeshOptions): void {
+    assignOptions(this.options, {
+      ...options,
+      colors: options.colors && [...options.colors],
+    });
+  }
+
+  isEnabled(): boolean {
+    return this.options.enabled;
+  }
 }
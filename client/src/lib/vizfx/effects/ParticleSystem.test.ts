@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { VizFX } from '../core/VizFX';
+import { ParticleSystem } from './ParticleSystem';
+
+/**
+ * A WebGL context that supports everything the GPU simulation needs and
+ * records each simulation pass as the time it advanced to and by
+ */
+function createGLStub() {
+  const steps: { time: number; deltaTime: number }[] = [];
+  const uniforms = new Map<string, number>();
+
+  const gl = new Proxy(
+    {},
+    {
+      get: (_target, key) => {
+        if (typeof key !== 'string') return undefined;
+        // Constants like gl.FLOAT
+        if (key === key.toUpperCase()) return 0;
+        switch (key) {
+          case 'getUniformLocation':
+            return (_program: unknown, name: string) => name;
+          case 'uniform1f':
+            return (name: string, value: number) => uniforms.set(name, value);
+          case 'drawArrays':
+            return () => {
+              // Only the simulation pass sets u_deltaTime
+              const deltaTime = uniforms.get('u_deltaTime');
+              if (deltaTime === undefined) return;
+              steps.push({ time: uniforms.get('u_simTime')!, deltaTime });
+              uniforms.delete('u_deltaTime');
+            };
+          case 'getParameter':
+            return () => 16;
+          case 'checkFramebufferStatus':
+            // Same as gl.FRAMEBUFFER_COMPLETE above: float targets work
+            return () => 0;
+          case 'getShaderPrecisionFormat':
+            return () => ({ precision: 23 });
+          case 'isContextLost':
+            return () => false;
+          case 'getShaderParameter':
+          case 'getProgramParameter':
+            return () => true;
+          default:
+            return () => ({});
+        }
+      },
+    }
+  ) as WebGLRenderingContext;
+
+  return { gl, steps };
+}
+
+describe('ParticleSystem GPU simulation', () => {
+  it('keeps moving particles while its layer is hidden', () => {
+    const { gl, steps } = createGLStub();
+    const canvas = {
+      width: 0,
+      height: 0,
+      getContext: (type: string) => (type === 'webgl2' ? gl : null),
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    } as unknown as OffscreenCanvas;
+    const viz = new VizFX({ canvas, width: 400, height: 300 });
+    const particles = new ParticleSystem({ simulation: 'gpu', count: 16 });
+    viz.addEffect(particles);
+    expect(particles.getSimulation()).toBe('gpu');
+
+    const dt = 1 / 60;
+    for (let i = 0; i < 30; i++) viz.step(dt);
+    viz.getLayer(particles)!.set({ visible: false });
+    for (let i = 0; i < 60; i++) viz.step(dt);
+    viz.getLayer(particles)!.set({ visible: true });
+    viz.step(dt);
+
+    // Every frame was simulated in one small step, hidden or not
+    expect(steps).toHaveLength(91);
+    for (const step of steps) {
+      expect(step.deltaTime).toBeCloseTo(dt, 6);
+    }
+    expect(steps[steps.length - 1].time).toBeCloseTo(91 * dt, 6);
+  });
+});
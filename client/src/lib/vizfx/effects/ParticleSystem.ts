@@ -2,50 +2,370 @@
  * Particle System Effect
  */
 
-import { Effect } from '../core/Effect';
+import { Effect, EffectOptions } from '../core/Effect';
+import { ReducedMotionPolicy } from '../core/motion';
+import type { EffectSchema } from '../core/registry';
+import { assignOptions } from '../utils/options';
+import { QUALITY_DETAIL_SCALE, QualityLevel } from '../core/QualityGovernor';
 import { Vec2, random, hexToRgb } from '../utils/math';
+import { KeyframeInput, KeyframeTrack } from '../animation/keyframes';
 import { createProgram } from '../utils/shaders';
-
-export interface ParticleSystemOptions {
+import { Canvas2DContext, getSoftDot } from '../utils/canvas2d';
+import {
+  EMITTER_SHAPES,
+  EmitterSample,
+  EmitterSampler,
+  EmitterShape,
+  createEmitterSampler,
+} from './emitters';
+import { LifetimeCurves } from './lifetime';
+import {
+  SPRITE_SHADER,
+  SpriteOptions,
+  SpriteState,
+  advanceSprite,
+  applySpriteUniforms,
+  createSpriteState,
+  drawSprite,
+  spriteDefaults,
+  spriteFrameCount,
+  spriteSchema,
+} from './sprites';
+import { SpriteTexture } from '../utils/texture';
+import type { InteractionManager } from '../utils/interaction';
+import { FORCE_FIELDS, ForceField, ForceFields, createPackedForces } from './forces';
+import { GpuParticleSimulation, SIMULATED_PARTICLE_SHADER } from './gpuParticles';
+
+export type ParticleSimulation = 'cpu' | 'gpu';
+
+export interface ParticleSystemOptions extends EffectOptions, SpriteOptions {
   count?: number;
   color?: string;
   size?: number;
   speed?: number;
   lifetime?: number;
   gravity?: Vec2;
+  /** Emitter position in pixels; (0, 0) centres it in the view (default) */
   emitterPosition?: Vec2;
   emitterRadius?: number;
+  /**
+   * Where particles spawn and which way they launch (default: a circle of
+   * `emitterRadius`)
+   */
+  emitter?: EmitterShape | null;
+  /**
+   * Particles emitted per second, up to `count` alive at once. 0 keeps
+   * `count` particles alive, respawning them as they die. (default: 0)
+   */
+  rate?: number;
+  /** Whether particles are emitted continuously (default: true) */
+  emitting?: boolean;
+  /**
+   * Each particle starts with a random colour along this gradient
+   * (default: `color` for all)
+   */
+  startColors?: string[];
+  /** Colour over life; multiplies the start colour */
+  colorOverLife?: KeyframeInput<string> | null;
+  /** Alpha over life from 0 to 1; replaces fadeOut */
+  alphaOverLife?: KeyframeInput<number> | null;
+  /** Size multiplier over life */
+  sizeOverLife?: KeyframeInput<number> | null;
   fadeOut?: boolean;
+  /** Force fields acting on top of gravity, in order (default: none) */
+  forces?: ForceField[];
+  /**
+   * Where particles are simulated. 'gpu' keeps them in float textures and
+   * falls back to 'cpu' where float render targets aren't available.
+   * Changing it restarts the particles. (default: 'cpu')
+   */
+  simulation?: ParticleSimulation;
 }
 
+/**
+ * Option metadata for scene loading and tooling
+ */
+export const particleSystemSchema: EffectSchema = {
+  enabled: {
+    type: 'boolean',
+    default: true,
+    description: 'Update and draw the effect',
+  },
+  count: {
+    type: 'integer',
+    min: 0,
+    max: 20000,
+    step: 1,
+    default: 1000,
+    description: 'Number of live particles, or the limit with a rate or bursts',
+  },
+  color: { type: 'color', default: '#ffffff', description: 'Particle colour' },
+  size: {
+    type: 'number',
+    min: 0.5,
+    max: 20,
+    step: 0.5,
+    default: 3,
+    description: 'Average particle size in pixels',
+  },
+  speed: {
+    type: 'number',
+    min: 0,
+    max: 1000,
+    step: 5,
+    default: 100,
+    description: 'Average launch speed in pixels per second',
+  },
+  lifetime: {
+    type: 'number',
+    min: 0.1,
+    max: 20,
+    step: 0.1,
+    default: 3,
+    description: 'Seconds a particle lives',
+  },
+  gravity: {
+    type: 'vec2',
+    default: { x: 0, y: -50 },
+    description: 'Constant acceleration in pixels per second squared',
+  },
+  emitterPosition: {
+    type: 'vec2',
+    default: { x: 0, y: 0 },
+    description: 'Emitter position in pixels; (0, 0) centres it in the view',
+  },
+  emitterRadius: {
+    type: 'number',
+    min: 0,
+    max: 1000,
+    step: 1,
+    default: 50,
+    description: 'Particles spawn within this distance of the emitter',
+  },
+  emitter: {
+    type: 'object',
+    variants: EMITTER_SHAPES,
+    description: 'Emitter shape; replaces emitterRadius',
+  },
+  rate: {
+    type: 'number',
+    min: 0,
+    max: 10000,
+    step: 1,
+    default: 0,
+    description: 'Particles per second; 0 keeps count particles alive',
+  },
+  emitting: {
+    type: 'boolean',
+    default: true,
+    description: 'Emit particles continuously',
+  },
+  startColors: {
+    type: 'color[]',
+    default: [],
+    description: 'Random start colour per particle, picked along this gradient',
+  },
+  colorOverLife: {
+    type: 'keyframes',
+    keyframeType: 'color',
+    description: 'Colour over life, multiplying the start colour',
+  },
+  alphaOverLife: {
+    type: 'keyframes',
+    description: 'Alpha over life from 0 to 1; replaces fadeOut',
+  },
+  sizeOverLife: {
+    type: 'keyframes',
+    description: 'Size multiplier over life',
+  },
+  fadeOut: {
+    type: 'boolean',
+    default: true,
+    description: 'Fade particles out over their lifetime',
+  },
+  forces: {
+    type: 'object[]',
+    variants: FORCE_FIELDS,
+    default: [],
+    description: 'Force fields acting on top of gravity',
+  },
+  simulation: {
+    type: 'string',
+    values: ['cpu', 'gpu'],
+    default: 'cpu',
+    description: 'Simulate particles on the CPU or in GPU float textures',
+  },
+  ...spriteSchema,
+};
+
 interface Particle {
   position: Vec2;
   velocity: Vec2;
   life: number;
   maxLife: number;
   size: number;
+  /** Start colour (0-1), or null to follow the `color` option */
+  color: { r: number; g: number; b: number } | null;
+  sprite: SpriteState;
 }
 
+/**
+ * Options baked into the lifetime lookup tables
+ */
+const CURVE_OPTIONS = ['colorOverLife', 'alphaOverLife', 'sizeOverLife', 'fadeOut'] as const;
+
+/**
+ * Fragment shader for both simulation paths
+ */
+const fragmentShader = `
+  precision mediump float;
+  
+  // Colour multiplier and alpha over life, indexed by age
+  uniform sampler2D u_lifetime;
+  varying float v_age;
+  varying vec3 v_color;
+  // Sprite frame and rotation
+  varying vec2 v_sprite;
+  ${SPRITE_SHADER}
+  
+  void main() {
+    vec4 shape = particleShape(v_sprite.x, v_sprite.y);
+    
+    // Sample texel centres so age 0 and 1 hit the first and last entry
+    vec4 curve = texture2D(u_lifetime, vec2((v_age * 255.0 + 0.5) / 256.0, 0.5));
+    gl_FragColor = vec4(v_color * curve.rgb * shape.rgb, shape.a * curve.a);
+  }
+`;
+
+/**
+ * Vertex shader for GPU-simulated particles: reads each slot from the
+ * simulation textures and works out what the CPU path uploads per particle
+ */
+const gpuVertexShader = `
+  ${SIMULATED_PARTICLE_SHADER}
+  
+  // Size over life in red, indexed like u_lifetime
+  uniform sampler2D u_sizes;
+  uniform vec2 u_resolution;
+  uniform vec3 u_color;
+  uniform float u_pointScale;
+  uniform float u_spriteFps;
+  uniform float u_frameCount;
+  
+  varying float v_age;
+  varying vec3 v_color;
+  varying vec2 v_sprite;
+  
+  void main() {
+    vec4 spawn = texture2D(u_spawn, a_slot);
+    float elapsed = u_simTime - spawn.x;
+    if (spawn.y <= 0.0 || elapsed >= spawn.y) {
+      // Dead slots are moved out of view
+      gl_Position = vec4(2.0, 2.0, 0.0, 1.0);
+      gl_PointSize = 0.0;
+      return;
+    }
+    
+    vec4 state = texture2D(u_state, a_slot);
+    vec4 extra = texture2D(u_extra, a_slot);
+    float age = elapsed / spawn.y;
+    float sizeScale = texture2D(u_sizes, vec2((floor(age * 255.0 + 0.5) + 0.5) / 256.0, 0.5)).r;
+    
+    gl_Position = vec4(state.xy / u_resolution * 2.0 - 1.0, 0.0, 1.0);
+    gl_PointSize = spawn.z * sizeScale * u_pointScale;
+    v_age = age;
+    v_color = extra.x < 0.0 ? u_color : unpackColor(extra.x);
+    v_sprite = vec2(
+      floor(mod(spawn.w + u_spriteFps * elapsed, u_frameCount)),
+      extra.y + extra.z * elapsed
+    );
+  }
+`;
+
 export class ParticleSystem implements Effect {
+  readonly type = 'particle-system';
+  readonly reducedMotion: ReducedMotionPolicy = 'static';
   private options: Required<ParticleSystemOptions>;
   private particles: Particle[] = [];
   private program: WebGLProgram | null = null;
   private positionBuffer: WebGLBuffer | null = null;
+  /** Vertex data for the CPU path, grown as needed */
+  private vertexData = new Float32Array(0);
+  private lifetimeTexture: WebGLTexture | null = null;
+  private curves: LifetimeCurves;
+  /** The curves changed since the texture was uploaded */
+  private curvesDirty: boolean = true;
+  private startColors: KeyframeTrack | null = null;
+  private spriteTexture: SpriteTexture;
+  private forces: ForceFields;
+  /** Scratch acceleration from the force fields */
+  private acceleration = new Vec2();
   private width: number = 0;
   private height: number = 0;
+  private quality: QualityLevel = 'high';
+  private sampler: EmitterSampler;
+  private sample: EmitterSample = { x: 0, y: 0, angle: 0 };
+  /**
+   * Where particles spawn: `emitterPosition`, or the centre of the view
+   * while that is (0, 0). Kept apart from the options so saved scenes stay
+   * centred on other screen sizes.
+   */
+  private origin = new Vec2();
+  /** Fractional particles owed to the emission rate */
+  private emitDebt: number = 0;
+  /** Set while particles run on the GPU */
+  private simulation: GpuParticleSimulation | null = null;
+  /** Context the simulation runs in, for stepping it from update() */
+  private gl: WebGLRenderingContext | null = null;
+  /** The simulation needs rebuilding on the next render */
+  private simulationDirty: boolean = false;
+  private gpuProgram: WebGLProgram | null = null;
+  /** Size over life for the GPU path */
+  private sizeTexture: WebGLTexture | null = null;
+  private packedForces = createPackedForces();
 
   constructor(options: ParticleSystemOptions = {}) {
     this.options = {
+      enabled: options.enabled ?? true,
       count: options.count ?? 1000,
       color: options.color ?? '#ffffff',
       size: options.size ?? 3,
       speed: options.speed ?? 100,
       lifetime: options.lifetime ?? 3,
       gravity: options.gravity ?? new Vec2(0, -50),
-      emitterPosition: options.emitterPosition ?? new Vec2(0, 0),
+      // Copied, since setEmitterPosition() changes it in place
+      emitterPosition: options.emitterPosition
+        ? new Vec2(options.emitterPosition.x, options.emitterPosition.y)
+        : new Vec2(0, 0),
       emitterRadius: options.emitterRadius ?? 50,
+      emitter: options.emitter ?? null,
+      rate: options.rate ?? 0,
+      emitting: options.emitting ?? true,
+      startColors: options.startColors ?? [],
+      colorOverLife: options.colorOverLife ?? null,
+      alphaOverLife: options.alphaOverLife ?? null,
+      sizeOverLife: options.sizeOverLife ?? null,
       fadeOut: options.fadeOut ?? true,
+      forces: options.forces ?? [],
+      simulation: options.simulation ?? 'cpu',
+      ...spriteDefaults(options),
     };
+    this.sampler = this.createSampler();
+    this.curves = new LifetimeCurves(this.options);
+    this.startColors = this.createStartColors();
+    this.spriteTexture = new SpriteTexture(this.options.texture);
+    this.forces = new ForceFields(this.options.forces);
+  }
+
+  private createStartColors(): KeyframeTrack | null {
+    const { startColors } = this.options;
+    return startColors.length > 0 ? new KeyframeTrack(startColors, 'startColors') : null;
+  }
+
+  private createSampler(): EmitterSampler {
+    return createEmitterSampler(
+      this.options.emitter ?? { type: 'circle', radius: this.options.emitterRadius }
+    );
   }
 
   init(gl: WebGLRenderingContext): void {
@@ -53,31 +373,22 @@ export class ParticleSystem implements Effect {
     const vertexShader = `
       attribute vec2 a_position;
       attribute float a_size;
-      attribute float a_alpha;
-      
-      varying float v_alpha;
+      attribute float a_age;
+      attribute vec3 a_color;
+      attribute vec2 a_sprite;
       
-      void main() {
-        gl_Position = vec4(a_position, 0.0, 1.0);
-        gl_PointSize = a_size;
-        v_alpha = a_alpha;
-      }
-    `;
-
-    const fragmentShader = `
-      precision mediump float;
+      uniform float u_pointScale;
       
-      uniform vec3 u_color;
-      varying float v_alpha;
+      varying float v_age;
+      varying vec3 v_color;
+      varying vec2 v_sprite;
       
       void main() {
-        // Create circular particles
-        vec2 coord = gl_PointCoord - vec2(0.5);
-        float dist = length(coord);
-        if (dist > 0.5) discard;
-        
-        float alpha = (1.0 - dist * 2.0) * v_alpha;
-        gl_FragColor = vec4(u_color, alpha);
+        gl_Position = vec4(a_position, 0.0, 1.0);
+        gl_PointSize = a_size * u_pointScale;
+        v_age = a_age;
+        v_color = a_color;
+        v_sprite = a_sprite;
       }
     `;
 
@@ -85,28 +396,117 @@ export class ParticleSystem implements Effect {
 
     // Create buffer
     this.positionBuffer = gl.createBuffer();
+    this.lifetimeTexture = null;
+    this.curvesDirty = true;
+    this.spriteTexture.reset();
+
+    // Anything left from a lost context is gone with it
+    this.gl = gl;
+    this.simulation = null;
+    this.gpuProgram = null;
+    this.sizeTexture = null;
+
+    // Set up the simulation and initialize particles
+    this.buildSimulation(gl);
+  }
+
+  /**
+   * Move the GPU simulation to the current options, falling back to the
+   * CPU where float render targets aren't available. Restarts the
+   * particles.
+   */
+  private buildSimulation(gl: WebGLRenderingContext): void {
+    this.destroySimulation(gl);
+    this.simulationDirty = false;
+
+    if (this.options.simulation === 'gpu' && GpuParticleSimulation.isSupported(gl)) {
+      const simulation = new GpuParticleSimulation(this.options.count);
+      this.gpuProgram = createProgram(gl, gpuVertexShader, fragmentShader);
+      if (this.gpuProgram && simulation.init(gl)) {
+        simulation.setLimit(this.getEffectiveCount());
+        this.simulation = simulation;
+        this.curvesDirty = true;
+      } else {
+        this.destroySimulation(gl);
+      }
+    }
 
-    // Initialize particles
     this.initParticles();
   }
 
+  private destroySimulation(gl: WebGLRenderingContext): void {
+    if (this.simulation) {
+      this.simulation.destroy(gl);
+      this.simulation = null;
+    }
+    if (this.gpuProgram) {
+      gl.deleteProgram(this.gpuProgram);
+      this.gpuProgram = null;
+    }
+    if (this.sizeTexture) {
+      gl.deleteTexture(this.sizeTexture);
+      this.sizeTexture = null;
+    }
+  }
+
   private initParticles(): void {
     this.particles = [];
-    for (let i = 0; i < this.options.count; i++) {
-      this.particles.push(this.createParticle());
+    this.simulation?.reset();
+    this.emitDebt = 0;
+    if (this.isRespawning()) {
+      this.spawn(this.getEffectiveCount());
+    }
+  }
+
+  /**
+   * Without a rate, an emitting system keeps a constant population
+   */
+  private isRespawning(): boolean {
+    return this.options.emitting && this.options.rate === 0;
+  }
+
+  /**
+   * Particle count after quality scaling
+   */
+  private getEffectiveCount(): number {
+    return Math.round(this.options.count * QUALITY_DETAIL_SCALE[this.quality]);
+  }
+
+  private applyCount(): void {
+    const count = this.getEffectiveCount();
+    this.simulation?.setLimit(count);
+    if (this.isRespawning()) {
+      this.spawn(count - this.getParticleCount());
+    }
+    if (this.particles.length > count) {
+      this.particles.length = count;
+    }
+  }
+
+  /**
+   * Add up to `count` particles, staying within the particle limit
+   */
+  private spawn(count: number, origin: Vec2 = this.origin): void {
+    if (this.simulation) {
+      // The simulation is limited to the effective count
+      for (let i = 0; i < count; i++) {
+        if (!this.simulation.spawn(this.createParticle(origin))) break;
+      }
+      return;
+    }
+
+    const room = this.getEffectiveCount() - this.particles.length;
+    for (let i = 0; i < Math.min(count, room); i++) {
+      this.particles.push(this.createParticle(origin));
     }
   }
 
-  private createParticle(): Particle {
-    const angle = random(0, Math.PI * 2);
-    const radius = random(0, this.options.emitterRadius);
+  private createParticle(origin: Vec2 = this.origin): Particle {
+    const { x, y, angle } = this.sampler(this.sample);
     const speed = random(this.options.speed * 0.5, this.options.speed * 1.5);
 
     return {
-      position: new Vec2(
-        this.options.emitterPosition.x + Math.cos(angle) * radius,
-        this.options.emitterPosition.y + Math.sin(angle) * radius
-      ),
+      position: new Vec2(origin.x + x, origin.y + y),
       velocity: new Vec2(
         Math.cos(angle) * speed,
         Math.sin(angle) * speed
@@ -114,63 +514,133 @@ export class ParticleSystem implements Effect {
       life: this.options.lifetime,
       maxLife: this.options.lifetime,
       size: random(this.options.size * 0.5, this.options.size * 1.5),
+      color: this.startColors && hexToRgb(this.startColors.sample(random(0, 1)) as string),
+      sprite: createSpriteState(this.options),
     };
   }
 
   update(time: number, deltaTime: number): void {
-    // Update particles
+    this.forces.update(time);
+
+    if (this.simulation) {
+      this.simulation.advance(deltaTime);
+      if (this.isRespawning()) {
+        this.simulation.respawn(() => this.createParticle());
+      }
+    } else {
+      this.updateParticles(deltaTime);
+    }
+
+    if (this.options.emitting && this.options.rate > 0) {
+      this.emitDebt +=
+        this.options.rate * QUALITY_DETAIL_SCALE[this.quality] * deltaTime;
+      const count = Math.floor(this.emitDebt);
+      this.emitDebt -= count;
+      this.spawn(count);
+    }
+
+    // Simulated here rather than in render(), so particles keep moving
+    // while the layer is hidden or faded out
+    if (this.simulation && this.gl) {
+      this.simulation.step(this.gl, this.options.gravity, this.forces.pack(this.packedForces));
+    }
+  }
+
+  private updateParticles(deltaTime: number): void {
+    const respawn = this.isRespawning();
+    const forced = !this.forces.isEmpty();
+    const { gravity } = this.options;
+    let alive = 0;
+
+    // Update particles, compacting out the dead ones
     for (let i = 0; i < this.particles.length; i++) {
       const p = this.particles[i];
 
       // Update life
       p.life -= deltaTime;
 
-      // Reset particle if dead
+      // Respawn or drop the particle if dead
       if (p.life <= 0) {
-        this.particles[i] = this.createParticle();
+        if (respawn) this.particles[alive++] = this.createParticle();
         continue;
       }
 
       // Apply gravity
-      p.velocity.add(
-        new Vec2(
-          this.options.gravity.x * deltaTime,
-          this.options.gravity.y * deltaTime
-        )
-      );
+      p.velocity.x += gravity.x * deltaTime;
+      p.velocity.y += gravity.y * deltaTime;
+
+      // Apply force fields
+      if (forced) {
+        const a = this.forces.apply(p.position, p.velocity, this.acceleration);
+        p.velocity.x += a.x * deltaTime;
+        p.velocity.y += a.y * deltaTime;
+      }
 
       // Update position
-      p.position.add(
-        new Vec2(p.velocity.x * deltaTime, p.velocity.y * deltaTime)
-      );
+      p.position.x += p.velocity.x * deltaTime;
+      p.position.y += p.velocity.y * deltaTime;
+      advanceSprite(p.sprite, this.options, deltaTime);
+      this.particles[alive++] = p;
     }
+    this.particles.length = alive;
   }
 
   render(gl: WebGLRenderingContext): void {
+    if (this.simulationDirty) {
+      this.buildSimulation(gl);
+    }
+    if (this.curvesDirty || !this.lifetimeTexture) {
+      this.lifetimeTexture = this.curves.upload(gl, this.lifetimeTexture);
+      if (this.simulation) {
+        this.sizeTexture = this.curves.uploadSizes(gl, this.sizeTexture);
+      }
+      this.curvesDirty = false;
+    }
+
+    if (this.simulation) {
+      this.renderSimulation(gl, this.simulation);
+      return;
+    }
     if (!this.program || !this.positionBuffer) return;
 
     gl.useProgram(this.program);
 
-    // Prepare particle data
-    const data: number[] = [];
+    // Prepare particle data, 9 floats per particle
+    const base = hexToRgb(this.options.color);
+    const frames = spriteFrameCount(this.options);
+    const length = this.particles.length * 9;
+    if (this.vertexData.length < length) {
+      this.vertexData = new Float32Array(Math.max(length, this.vertexData.length * 2));
+    }
+    const data = this.vertexData;
+    let offset = 0;
     for (const p of this.particles) {
-      // Convert to clip space (-1 to 1)
-      const x = (p.position.x / this.width) * 2 - 1;
-      const y = (p.position.y / this.height) * 2 - 1;
-      const alpha = this.options.fadeOut ? p.life / p.maxLife : 1.0;
+      const age = 1 - p.life / p.maxLife;
+      const { r, g, b } = p.color ?? base;
 
-      data.push(x, y, p.size, alpha);
+      // Convert to clip space (-1 to 1)
+      data[offset++] = (p.position.x / this.width) * 2 - 1;
+      data[offset++] = (p.position.y / this.height) * 2 - 1;
+      data[offset++] = p.size * this.curves.sizes[this.curves.index(age)];
+      data[offset++] = age;
+      data[offset++] = r;
+      data[offset++] = g;
+      data[offset++] = b;
+      data[offset++] = Math.floor(p.sprite.frame) % frames;
+      data[offset++] = p.sprite.angle;
     }
 
     // Upload data
     gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
-    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(data), gl.DYNAMIC_DRAW);
+    gl.bufferData(gl.ARRAY_BUFFER, data.subarray(0, length), gl.DYNAMIC_DRAW);
 
     // Set attributes
-    const stride = 4 * 4; // 4 floats per particle
+    const stride = 9 * 4; // 9 floats per particle
     const positionLoc = gl.getAttribLocation(this.program, 'a_position');
     const sizeLoc = gl.getAttribLocation(this.program, 'a_size');
-    const alphaLoc = gl.getAttribLocation(this.program, 'a_alpha');
+    const ageLoc = gl.getAttribLocation(this.program, 'a_age');
+    const colorLoc = gl.getAttribLocation(this.program, 'a_color');
+    const spriteLoc = gl.getAttribLocation(this.program, 'a_sprite');
 
     gl.enableVertexAttribArray(positionLoc);
     gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, stride, 0);
@@ -178,28 +648,130 @@ export class ParticleSystem implements Effect {
     gl.enableVertexAttribArray(sizeLoc);
     gl.vertexAttribPointer(sizeLoc, 1, gl.FLOAT, false, stride, 8);
 
-    gl.enableVertexAttribArray(alphaLoc);
-    gl.vertexAttribPointer(alphaLoc, 1, gl.FLOAT, false, stride, 12);
+    gl.enableVertexAttribArray(ageLoc);
+    gl.vertexAttribPointer(ageLoc, 1, gl.FLOAT, false, stride, 12);
+
+    gl.enableVertexAttribArray(colorLoc);
+    gl.vertexAttribPointer(colorLoc, 3, gl.FLOAT, false, stride, 16);
+
+    gl.enableVertexAttribArray(spriteLoc);
+    gl.vertexAttribPointer(spriteLoc, 2, gl.FLOAT, false, stride, 28);
 
-    // Set color uniform
-    const colorLoc = gl.getUniformLocation(this.program, 'u_color');
-    const rgb = hexToRgb(this.options.color);
-    gl.uniform3f(colorLoc, rgb.r, rgb.g, rgb.b);
+    // Sprite texture on unit 1, or soft dots until it has loaded
+    applySpriteUniforms(gl, this.program, this.spriteTexture, this.options, 1);
+
+    // Lifetime lookup texture
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.lifetimeTexture);
+    gl.uniform1i(gl.getUniformLocation(this.program, 'u_lifetime'), 0);
 
     // Draw particles
     gl.drawArrays(gl.POINTS, 0, this.particles.length);
   }
 
+  private renderSimulation(gl: WebGLRenderingContext, simulation: GpuParticleSimulation): void {
+    if (!this.gpuProgram) return;
+
+    // Uploads particles spawned since the last update; update() moved them
+    simulation.step(gl, this.options.gravity, this.forces.pack(this.packedForces));
+
+    const program = this.gpuProgram;
+    gl.useProgram(program);
+
+    // Simulation textures on units 2-4, sizes on 5
+    simulation.bind(gl, program, 2);
+    gl.activeTexture(gl.TEXTURE5);
+    gl.bindTexture(gl.TEXTURE_2D, this.sizeTexture);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_sizes'), 5);
+
+    const { r, g, b } = hexToRgb(this.options.color);
+    gl.uniform3f(gl.getUniformLocation(program, 'u_color'), r, g, b);
+    gl.uniform2f(gl.getUniformLocation(program, 'u_resolution'), this.width, this.height);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_spriteFps'), this.options.spriteFps);
+    gl.uniform1f(
+      gl.getUniformLocation(program, 'u_frameCount'),
+      spriteFrameCount(this.options)
+    );
+
+    // Sprite texture on unit 1, or soft dots until it has loaded
+    applySpriteUniforms(gl, program, this.spriteTexture, this.options, 1);
+
+    // Lifetime lookup texture
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.lifetimeTexture);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_lifetime'), 0);
+
+    // Dead slots are skipped in the vertex shader
+    gl.drawArrays(gl.POINTS, 0, simulation.capacity);
+  }
+
+  /**
+   * Where particles are simulated right now: 'cpu' when the `simulation`
+   * option is 'cpu', or 'gpu' isn't supported (or set up yet)
+   */
+  getSimulation(): ParticleSimulation {
+    return this.simulation ? 'gpu' : 'cpu';
+  }
+
+  init2D(): void {
+    this.initParticles();
+  }
+
+  render2D(ctx: Canvas2DContext): void {
+    if (this.width === 0 || this.height === 0) return;
+
+    // Device pixels, like gl_PointSize; y points down on a 2D canvas
+    const scale = ctx.canvas.width / this.width;
+    const opacity = ctx.globalAlpha;
+    const { colors, sizes } = this.curves;
+    // Textures are drawn untinted
+    const image = this.spriteTexture.getImage();
+    // With one colour a cached soft sprite looks closest to the shader;
+    // varying colours fall back to plain circles
+    const sprite =
+      image || this.startColors || this.options.colorOverLife
+        ? null
+        : getSoftDot(this.options.color);
+    const base = hexToRgb(this.options.color);
+
+    for (const p of this.particles) {
+      const x = p.position.x * scale;
+      const y = (this.height - p.position.y) * scale;
+      const index = this.curves.index(1 - p.life / p.maxLife);
+      const size = p.size * sizes[index];
+
+      ctx.globalAlpha = (opacity * colors[index * 4 + 3]) / 255;
+      if (image) {
+        drawSprite(ctx, image, this.options, p.sprite, x, y, size);
+      } else if (sprite) {
+        ctx.drawImage(sprite, x - size / 2, y - size / 2, size, size);
+      } else {
+        const { r, g, b } = p.color ?? base;
+        const channel = (value: number, offset: number) =>
+          Math.round(value * colors[index * 4 + offset]);
+        ctx.fillStyle = `rgb(${channel(r, 0)}, ${channel(g, 1)}, ${channel(b, 2)})`;
+        ctx.beginPath();
+        ctx.arc(x, y, size / 2, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+
+    ctx.globalAlpha = opacity;
+  }
+
   resize(width: number, height: number): void {
     this.width = width;
     this.height = height;
+    this.forces.resize(width, height);
+    this.updateOrigin();
+  }
 
-    // Update emitter position to center if not set
-    if (
-      this.options.emitterPosition.x === 0 &&
-      this.options.emitterPosition.y === 0
-    ) {
-      this.options.emitterPosition.set(width / 2, height / 2);
+  private updateOrigin(): void {
+    const { x, y } = this.options.emitterPosition;
+    if (x === 0 && y === 0) {
+      this.origin.set(this.width / 2, this.height / 2);
+    } else {
+      this.origin.set(x, y);
     }
   }
 
@@ -212,25 +784,129 @@ export class ParticleSystem implements Effect {
       gl.deleteBuffer(this.positionBuffer);
       this.positionBuffer = null;
     }
+    if (this.lifetimeTexture) {
+      gl.deleteTexture(this.lifetimeTexture);
+      this.lifetimeTexture = null;
+    }
+    this.destroySimulation(gl);
+    this.spriteTexture.destroy(gl);
+    this.gl = null;
   }
 
   // Public API for dynamic control
   setEmitterPosition(x: number, y: number): void {
     this.options.emitterPosition.set(x, y);
+    this.updateOrigin();
   }
 
   setColor(color: string): void {
-    this.options.color = color;
+    this.setOptions({ color });
   }
 
   setCount(count: number): void {
-    this.options.count = count;
-    // Adjust particles array if needed
-    while (this.particles.length < count) {
-      this.particles.push(this.createParticle());
+    this.setOptions({ count });
+  }
+
+  /**
+   * Emit `count` particles at once, e.g. for a click explosion. They spawn
+   * around `position` (pixels, y up) or the emitter, within the `count`
+   * limit.
+   */
+  burst(count: number, position?: { x: number; y: number }): void {
+    this.spawn(count, position ? new Vec2(position.x, position.y) : undefined);
+  }
+
+  /**
+   * Stop continuous emission. Live particles play out their lifetime;
+   * burst() still works.
+   */
+  stopEmitting(): void {
+    this.setOptions({ emitting: false });
+  }
+
+  startEmitting(): void {
+    this.setOptions({ emitting: true });
+  }
+
+  /**
+   * Number of live particles
+   */
+  getParticleCount(): number {
+    return this.simulation ? this.simulation.getAliveCount() : this.particles.length;
+  }
+
+  /**
+   * Update options while running. `count` adds or removes particles right
+   * away; lifetime curves and textures apply to live particles; speed, size,
+   * lifetime, start colour, rotation and emitter changes apply as particles
+   * respawn.
+   */
+  setOptions(options: ParticleSystemOptions): void {
+    const { gravity, emitterPosition, emitter, startColors, forces } = options;
+    const changed = assignOptions(this.options, {
+      ...options,
+      gravity: gravity && new Vec2(gravity.x, gravity.y),
+      emitterPosition:
+        emitterPosition && new Vec2(emitterPosition.x, emitterPosition.y),
+      emitter: emitter && { ...emitter },
+      startColors: startColors && [...startColors],
+      forces: forces && forces.map(field => ({ ...field })),
+    });
+
+    if (changed.has('emitterPosition')) {
+      this.updateOrigin();
     }
-    if (this.particles.length > count) {
-      this.particles.length = count;
+    if (changed.has('emitter') || changed.has('emitterRadius')) {
+      this.sampler = this.createSampler();
+    }
+    if (changed.has('forces')) {
+      this.forces.setFields(this.options.forces);
+    }
+    if (changed.has('texture')) {
+      this.spriteTexture.setSource(this.options.texture);
     }
+    if (changed.has('startColors')) {
+      this.startColors = this.createStartColors();
+    }
+    if (CURVE_OPTIONS.some(key => changed.has(key))) {
+      this.curves = new LifetimeCurves(this.options);
+      this.curvesDirty = true;
+    }
+    if (
+      changed.has('simulation') ||
+      (this.simulation && this.options.count > this.simulation.capacity)
+    ) {
+      this.simulationDirty = true;
+    }
+    if (changed.has('count') || changed.has('emitting') || changed.has('rate')) {
+      this.applyCount();
+    }
+  }
+
+  /**
+   * Pointer source for `pointer` force fields; VizFX calls this
+   */
+  setInteraction(interaction: InteractionManager | null): void {
+    this.forces.setInteraction(interaction);
+  }
+
+  setQuality(level: QualityLevel): void {
+    this.quality = level;
+    this.applyCount();
+  }
+
+  getOptions(): ParticleSystemOptions {
+    return {
+      ...this.options,
+      gravity: this.options.gravity.clone(),
+      emitterPosition: this.options.emitterPosition.clone(),
+      emitter: this.options.emitter && { ...this.options.emitter },
+      startColors: [...this.options.startColors],
+      forces: this.options.forces.map(field => ({ ...field })),
+    };
+  }
+
+  isEnabled(): boolean {
+    return this.options.enabled;
   }
 }
@@ -2,10 +2,14 @@
  * Wave/Ripple Effect
  */
 
-import { Effect } from '../core/Effect';
+import { Effect, EffectOptions } from '../core/Effect';
+import { ReducedMotionPolicy } from '../core/motion';
+import type { EffectSchema } from '../core/registry';
+import { assignOptions } from '../utils/options';
 import { createProgram, createQuad } from '../utils/shaders';
+import { toRgba } from '../utils/canvas2d';
 
-export interface WaveEffectOptions {
+export interface WaveEffectOptions extends EffectOptions {
   amplitude?: number;
   frequency?: number;
   speed?: number;
@@ -13,15 +17,58 @@ export interface WaveEffectOptions {
   color2?: string;
 }
 
+/**
+ * Option metadata for scene loading and tooling
+ */
+export const waveEffectSchema: EffectSchema = {
+  enabled: {
+    type: 'boolean',
+    default: true,
+    description: 'Update and draw the effect',
+  },
+  amplitude: {
+    type: 'number',
+    min: 0,
+    max: 1,
+    step: 0.01,
+    default: 0.1,
+    description: 'Wave height as a share of the canvas',
+  },
+  frequency: {
+    type: 'number',
+    min: 0,
+    max: 20,
+    step: 0.1,
+    default: 3,
+    description: 'Number of waves across the canvas',
+  },
+  speed: {
+    type: 'number',
+    min: 0,
+    max: 10,
+    step: 0.1,
+    default: 1,
+    description: 'Animation speed',
+  },
+  color1: { type: 'color', default: '#6366f1', description: 'First gradient colour' },
+  color2: { type: 'color', default: '#8b5cf6', description: 'Second gradient colour' },
+};
+
 export class WaveEffect implements Effect {
+  readonly type = 'wave-effect';
+  readonly reducedMotion: ReducedMotionPolicy = 'static';
   private options: Required<WaveEffectOptions>;
   private program: WebGLProgram | null = null;
   private quadBuffer: WebGLBuffer | null = null;
   private width: number = 0;
   private height: number = 0;
+  private time: number = 0;
+  /** Wave progress: time integrated over speed */
+  private phase: number = 0;
 
   constructor(options: WaveEffectOptions = {}) {
     this.options = {
+      enabled: options.enabled ?? true,
       amplitude: options.amplitude ?? 0.1,
       frequency: options.frequency ?? 3.0,
       speed: options.speed ?? 1.0,
@@ -50,7 +97,7 @@ export class WaveEffect implements Effect {
       uniform vec2 u_resolution;
       uniform float u_amplitude;
       uniform float u_frequency;
-      uniform float u_speed;
+      uniform float u_phase;
       uniform vec3 u_color1;
       uniform vec3 u_color2;
       
@@ -60,8 +107,8 @@ export class WaveEffect implements Effect {
         vec2 uv = v_texCoord;
         
         // Create wave distortion
-        float wave1 = sin(uv.x * u_frequency + u_time * u_speed) * u_amplitude;
-        float wave2 = cos(uv.y * u_frequency + u_time * u_speed * 0.8) * u_amplitude;
+        float wave1 = sin(uv.x * u_frequency + u_phase) * u_amplitude;
+        float wave2 = cos(uv.y * u_frequency + u_phase * 0.8) * u_amplitude;
         
         uv.y += wave1;
         uv.x += wave2;
@@ -85,7 +132,14 @@ export class WaveEffect implements Effect {
   }
 
   update(time: number, deltaTime: number): void {
-    // Animation is handled in the shader
+    // Integrate speed so live changes don't jump the waves, also across
+    // frames skipped while disabled. A seek starts over from time * speed.
+    if (deltaTime === 0 && time !== this.time) {
+      this.phase = time * this.options.speed;
+    } else {
+      this.phase += deltaTime * this.options.speed;
+    }
+    this.time = time;
   }
 
   render(gl: WebGLRenderingContext): void {
@@ -111,15 +165,15 @@ export class WaveEffect implements Effect {
     const resolutionLoc = gl.getUniformLocation(this.program, 'u_resolution');
     const amplitudeLoc = gl.getUniformLocation(this.program, 'u_amplitude');
     const frequencyLoc = gl.getUniformLocation(this.program, 'u_frequency');
-    const speedLoc = gl.getUniformLocation(this.program, 'u_speed');
+    const phaseLoc = gl.getUniformLocation(this.program, 'u_phase');
     const color1Loc = gl.getUniformLocation(this.program, 'u_color1');
     const color2Loc = gl.getUniformLocation(this.program, 'u_color2');
 
-    gl.uniform1f(timeLoc, performance.now() / 1000);
+    gl.uniform1f(timeLoc, this.time);
     gl.uniform2f(resolutionLoc, this.width, this.height);
     gl.uniform1f(amplitudeLoc, this.options.amplitude);
     gl.uniform1f(frequencyLoc, this.options.frequency);
-    gl.uniform1f(speedLoc, this.options.speed);
+    gl.uniform1f(phaseLoc, this.phase);
 
     // Convert hex colors to RGB
     const rgb1 = this.hexToRgb(this.options.color1);
@@ -131,6 +185,15 @@ export class WaveEffect implements Effect {
     gl.drawArrays(gl.TRIANGLES, 0, 6);
   }
 
+  /**
+   * Still stand-in for the fallback renderer: the colour blend without the
+   * waves
+   */
+  getFallbackBackground(): string {
+    const { color1, color2 } = this.options;
+    return `linear-gradient(to top right, ${toRgba(color1, 0.8)}, ${toRgba(color2, 0.8)})`;
+  }
+
   resize(width: number, height: number): void {
     this.width = width;
     this.height = height;
@@ -157,4 +220,22 @@ export class WaveEffect implements Effect {
         }
       : { r: 1, g: 1, b: 1 };
   }
+
+  /**
+   * Get the current options
+   */
+  getOptions(): WaveEffectOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Update options while running. Changes apply from the next frame.
+   */
+  setOptions(options: WaveEffectOptions): void {
+    assignOptions(this.options, options);
+  }
+
+  isEnabled(): boolean {
+    return this.options.enabled;
+  }
 }
@@ -0,0 +1,181 @@
+/**
+ * Emitter shapes - Where particles spawn and which way they launch
+ *
+ * Angles are in degrees, counter-clockwise from the +x axis, so 90 points
+ * up (particle space has y up).
+ */
+
+import type { EffectSchema } from '../core/registry';
+import { Vec2, random } from '../utils/math';
+import { PolylineSampler, flattenPath } from '../utils/path';
+
+export type EmitterShape =
+  /** Everything starts at the emitter position */
+  | { type: 'point'; direction?: number; spread?: number }
+  /** Inside a circle, or on its edge, launching outward */
+  | { type: 'circle'; radius?: number; edge?: boolean }
+  /** Inside a rectangle centred on the emitter */
+  | { type: 'rect'; width?: number; height?: number; direction?: number; spread?: number }
+  /** Along a line through the emitter, rotated by `angle` */
+  | { type: 'line'; length?: number; angle?: number; direction?: number; spread?: number }
+  /**
+   * A cone of `spread` degrees around `direction`, launching outward. With
+   * a radius and `edge` it emits from an arc.
+   */
+  | { type: 'cone'; direction?: number; spread?: number; radius?: number; edge?: boolean }
+  /** Along SVG path data, centred on the emitter */
+  | { type: 'path'; path: string; scale?: number; direction?: number; spread?: number };
+
+export type EmitterShapeType = EmitterShape['type'];
+
+const direction = {
+  type: 'number',
+  default: 90,
+  description: 'Launch direction in degrees (90 is up)',
+} as const;
+
+const spread = {
+  type: 'number',
+  min: 0,
+  max: 360,
+  default: 360,
+  description: 'Launch angle range in degrees around the direction',
+} as const;
+
+/**
+ * Fields of each emitter shape, for scene validation and tooling
+ */
+export const EMITTER_SHAPES: Record<EmitterShapeType, EffectSchema> = {
+  point: { direction, spread },
+  circle: {
+    radius: { type: 'number', min: 0, default: 50, description: 'Radius in pixels' },
+    edge: { type: 'boolean', default: false, description: 'Spawn on the edge only' },
+  },
+  rect: {
+    width: { type: 'number', min: 0, default: 100, description: 'Width in pixels' },
+    height: { type: 'number', min: 0, default: 100, description: 'Height in pixels' },
+    direction,
+    spread,
+  },
+  line: {
+    length: { type: 'number', min: 0, default: 200, description: 'Length in pixels' },
+    angle: { type: 'number', default: 0, description: 'Rotation of the line in degrees' },
+    direction,
+    spread,
+  },
+  cone: {
+    direction,
+    spread: { ...spread, default: 45 },
+    radius: { type: 'number', min: 0, default: 0, description: 'Distance from the emitter in pixels' },
+    edge: { type: 'boolean', default: false, description: 'Spawn at the radius only' },
+  },
+  path: {
+    path: { type: 'string', description: 'SVG path data, e.g. "M0 0 L100 0"' },
+    scale: { type: 'number', min: 0, default: 1, description: 'Scale of the path' },
+    direction,
+    spread,
+  },
+};
+
+/**
+ * Spawn point and launch angle (radians) of one particle
+ */
+export interface EmitterSample {
+  x: number;
+  y: number;
+  angle: number;
+}
+
+/**
+ * Samples spawn points relative to the emitter position
+ */
+export type EmitterSampler = (out: EmitterSample) => EmitterSample;
+
+const DEG = Math.PI / 180;
+
+/**
+ * A random angle within `spread` degrees around `direction`, in radians
+ */
+function launchAngle(direction: number = 90, spread: number = 360): number {
+  return (direction + random(-spread / 2, spread / 2)) * DEG;
+}
+
+/**
+ * Points inside (or on the edge of) a circle sector, launching outward
+ */
+function arcSampler(from: number, to: number, radius: number, edge: boolean): EmitterSampler {
+  return out => {
+    const angle = random(from, to) * DEG;
+    // sqrt keeps the density even across the area
+    const distance = edge ? radius : radius * Math.sqrt(random(0, 1));
+    out.x = Math.cos(angle) * distance;
+    out.y = Math.sin(angle) * distance;
+    out.angle = angle;
+    return out;
+  };
+}
+
+/**
+ * Build the sampler for a shape. Path data is flattened once here, so keep
+ * the sampler while the shape stays the same.
+ */
+export function createEmitterSampler(shape: EmitterShape): EmitterSampler {
+  switch (shape.type) {
+    case 'point':
+      return out => {
+        out.x = 0;
+        out.y = 0;
+        out.angle = launchAngle(shape.direction, shape.spread);
+        return out;
+      };
+
+    case 'circle':
+      return arcSampler(0, 360, shape.radius ?? 50, shape.edge ?? false);
+
+    case 'cone': {
+      const direction = shape.direction ?? 90;
+      const half = (shape.spread ?? 45) / 2;
+      return arcSampler(direction - half, direction + half, shape.radius ?? 0, shape.edge ?? false);
+    }
+
+    case 'rect': {
+      const width = shape.width ?? 100;
+      const height = shape.height ?? 100;
+      return out => {
+        out.x = random(-width / 2, width / 2);
+        out.y = random(-height / 2, height / 2);
+        out.angle = launchAngle(shape.direction, shape.spread);
+        return out;
+      };
+    }
+
+    case 'line': {
+      const length = shape.length ?? 200;
+      const angle = (shape.angle ?? 0) * DEG;
+      return out => {
+        const along = random(-length / 2, length / 2);
+        out.x = Math.cos(angle) * along;
+        out.y = Math.sin(angle) * along;
+        out.angle = launchAngle(shape.direction, shape.spread);
+        return out;
+      };
+    }
+
+    case 'path': {
+      const sampler = new PolylineSampler(flattenPath(shape.path));
+      const scale = shape.scale ?? 1;
+      const center = new Vec2(
+        (sampler.min.x + sampler.max.x) / 2,
+        (sampler.min.y + sampler.max.y) / 2
+      );
+      return out => {
+        const point = sampler.at(random(0, 1));
+        // SVG y points down
+        out.x = (point.x - center.x) * scale;
+        out.y = (center.y - point.y) * scale;
+        out.angle = launchAngle(shape.direction, shape.spread);
+        return out;
+      };
+    }
+  }
+}
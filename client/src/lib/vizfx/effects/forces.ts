@@ -0,0 +1,533 @@
+/**
+ * Force fields - Accelerations acting on particles, combined in any order
+ *
+ * Positions are in pixels with y up, like particle positions; omitted
+ * positions mean the centre of the view. Strengths are accelerations in
+ * pixels per second squared.
+ */
+
+import type { EffectSchema } from '../core/registry';
+import type { InteractionManager } from '../utils/interaction';
+import { Vec2 } from '../utils/math';
+import { curlNoise, valueNoise } from '../utils/noise';
+
+/**
+ * How a force weakens with distance. `none` and `linear` stop at the
+ * radius (0 means no limit for `none`); `inverse-square` halves at the
+ * radius and keeps fading beyond it.
+ */
+export type ForceFalloff = 'none' | 'linear' | 'inverse-square';
+
+export const FORCE_FALLOFFS: readonly ForceFalloff[] = ['none', 'linear', 'inverse-square'];
+
+export type PointerForceMode = 'attract' | 'repel' | 'vortex';
+
+export type ForceField =
+  /** Pulls particles towards a point */
+  | {
+      type: 'attractor';
+      position?: { x: number; y: number };
+      strength?: number;
+      radius?: number;
+      falloff?: ForceFalloff;
+    }
+  /** Pushes particles away from a point */
+  | {
+      type: 'repulsor';
+      position?: { x: number; y: number };
+      strength?: number;
+      radius?: number;
+      falloff?: ForceFalloff;
+    }
+  /**
+   * Swirls particles counter-clockwise around a point (negative strength
+   * turns clockwise). `pull` adds an inward acceleration that keeps them
+   * from flying off.
+   */
+  | {
+      type: 'vortex';
+      position?: { x: number; y: number };
+      strength?: number;
+      pull?: number;
+      radius?: number;
+      falloff?: ForceFalloff;
+    }
+  /** Slows particles down by `coefficient` times their velocity */
+  | { type: 'drag'; coefficient?: number }
+  /** Divergence-free curl noise, drifting over time */
+  | { type: 'turbulence'; strength?: number; scale?: number; speed?: number }
+  /** A steady push in a direction (degrees, 0 is right), with gusts */
+  | { type: 'wind'; direction?: number; strength?: number; gust?: number }
+  /**
+   * Attracts, repels or swirls around the pointer while it is over the
+   * canvas, or only while pressed with `whileDown`
+   */
+  | {
+      type: 'pointer';
+      mode?: PointerForceMode;
+      strength?: number;
+      pull?: number;
+      radius?: number;
+      falloff?: ForceFalloff;
+      whileDown?: boolean;
+    };
+
+export type ForceFieldType = ForceField['type'];
+
+const position = {
+  type: 'vec2',
+  description: 'Centre in pixels (y up); omit for the centre of the view',
+} as const;
+
+const strength = {
+  type: 'number',
+  default: 200,
+  description: 'Acceleration in pixels per second squared',
+} as const;
+
+const radius = {
+  type: 'number',
+  min: 0,
+  default: 200,
+  description: 'Reach in pixels, shaped by the falloff',
+} as const;
+
+const falloff = {
+  type: 'string',
+  values: FORCE_FALLOFFS,
+  default: 'linear',
+  description: 'How the force weakens with distance',
+} as const;
+
+const pull = {
+  type: 'number',
+  default: 0,
+  description: 'Inward acceleration in pixels per second squared',
+} as const;
+
+/**
+ * Fields of each force type, for scene validation and tooling
+ */
+export const FORCE_FIELDS: Record<ForceFieldType, EffectSchema> = {
+  attractor: { position, strength, radius, falloff },
+  repulsor: { position, strength, radius, falloff },
+  vortex: { position, strength, pull, radius, falloff },
+  drag: {
+    coefficient: {
+      type: 'number',
+      min: 0,
+      default: 1,
+      description: 'Share of velocity lost per second',
+    },
+  },
+  turbulence: {
+    strength: { ...strength, default: 100 },
+    scale: {
+      type: 'number',
+      min: 1,
+      default: 200,
+      description: 'Size of the swirls in pixels',
+    },
+    speed: {
+      type: 'number',
+      min: 0,
+      default: 0.5,
+      description: 'How fast the swirls change',
+    },
+  },
+  wind: {
+    direction: { type: 'number', default: 0, description: 'Direction in degrees (0 is right)' },
+    strength: { ...strength, default: 50 },
+    gust: {
+      type: 'number',
+      min: 0,
+      max: 1,
+      default: 0,
+      description: 'Random variation of the strength, from 0 to 1',
+    },
+  },
+  pointer: {
+    mode: {
+      type: 'string',
+      values: ['attract', 'repel', 'vortex'],
+      default: 'vortex',
+      description: 'What the pointer does to particles',
+    },
+    strength: { ...strength, default: 400 },
+    pull: { ...pull, default: 200 },
+    radius: { ...radius, default: 150 },
+    falloff,
+    whileDown: {
+      type: 'boolean',
+      default: false,
+      description: 'Only act while the pointer is pressed',
+    },
+  },
+};
+
+/**
+ * Frame state shared by all forces
+ */
+export interface ForceEnvironment {
+  time: number;
+  width: number;
+  height: number;
+  /** Pointer position in particle space, or null while it is off the canvas */
+  pointer: Vec2 | null;
+  pointerDown: boolean;
+}
+
+/**
+ * Adds the force's acceleration at a particle to `out`
+ */
+export type ForceFunction = (
+  position: Vec2,
+  velocity: Vec2,
+  env: ForceEnvironment,
+  out: Vec2
+) => void;
+
+const DEG = Math.PI / 180;
+
+/**
+ * Strength multiplier at `distance` for a falloff
+ */
+export function falloffAt(kind: ForceFalloff, distance: number, radius: number): number {
+  switch (kind) {
+    case 'none':
+      return radius > 0 && distance > radius ? 0 : 1;
+    case 'linear':
+      return radius > 0 ? Math.max(0, 1 - distance / radius) : 0;
+    case 'inverse-square': {
+      if (radius <= 0) return 1;
+      const ratio = distance / radius;
+      return 1 / (1 + ratio * ratio);
+    }
+  }
+}
+
+type RadialField = Extract<ForceField, { type: 'attractor' | 'repulsor' | 'vortex' | 'pointer' }>;
+
+/**
+ * A force around a centre: `radial` pushes outward (negative pulls in) and
+ * `tangential` turns counter-clockwise, both scaled by the falloff
+ */
+interface RadialParams {
+  radial: number;
+  tangential: number;
+  radius: number;
+  falloff: ForceFalloff;
+}
+
+function radialParams(field: RadialField): RadialParams {
+  const falloff = field.falloff ?? 'linear';
+  switch (field.type) {
+    case 'attractor':
+      return { radial: -(field.strength ?? 200), tangential: 0, radius: field.radius ?? 200, falloff };
+    case 'repulsor':
+      return { radial: field.strength ?? 200, tangential: 0, radius: field.radius ?? 200, falloff };
+    case 'vortex':
+      return {
+        radial: -(field.pull ?? 0),
+        tangential: field.strength ?? 200,
+        radius: field.radius ?? 200,
+        falloff,
+      };
+    case 'pointer': {
+      const mode = field.mode ?? 'vortex';
+      const strength = field.strength ?? 400;
+      return {
+        radial: mode === 'attract' ? -strength : mode === 'repel' ? strength : -(field.pull ?? 200),
+        tangential: mode === 'vortex' ? strength : 0,
+        radius: field.radius ?? 150,
+        falloff,
+      };
+    }
+  }
+}
+
+/**
+ * Where a radial field is centred this frame, or null while it is inactive
+ */
+function radialCenter(field: RadialField, env: ForceEnvironment, out: Vec2): Vec2 | null {
+  if (field.type === 'pointer') {
+    if (!env.pointer || (field.whileDown && !env.pointerDown)) return null;
+    return out.set(env.pointer.x, env.pointer.y);
+  }
+  return field.position
+    ? out.set(field.position.x, field.position.y)
+    : out.set(env.width / 2, env.height / 2);
+}
+
+/**
+ * Build the function for a field. Keep it while the field stays the same.
+ */
+export function createForce(field: ForceField): ForceFunction {
+  switch (field.type) {
+    case 'attractor':
+    case 'repulsor':
+    case 'vortex':
+    case 'pointer': {
+      const { radial, tangential, radius, falloff } = radialParams(field);
+      const center = new Vec2();
+      return (position, velocity, env, out) => {
+        const c = radialCenter(field, env, center);
+        if (!c) return;
+
+        const dx = position.x - c.x;
+        const dy = position.y - c.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        // The direction is undefined at the centre
+        if (distance < 1e-3) return;
+
+        const scale = falloffAt(falloff, distance, radius) / distance;
+        out.x += (dx * radial - dy * tangential) * scale;
+        out.y += (dy * radial + dx * tangential) * scale;
+      };
+    }
+
+    case 'drag': {
+      const coefficient = field.coefficient ?? 1;
+      return (position, velocity, env, out) => {
+        out.x -= velocity.x * coefficient;
+        out.y -= velocity.y * coefficient;
+      };
+    }
+
+    case 'turbulence': {
+      const strength = field.strength ?? 100;
+      const scale = field.scale ?? 200;
+      const speed = field.speed ?? 0.5;
+      const curl = new Vec2();
+      return (position, velocity, env, out) => {
+        curlNoise(position.x / scale, position.y / scale, env.time * speed, curl);
+        out.x += curl.x * strength;
+        out.y += curl.y * strength;
+      };
+    }
+
+    case 'wind': {
+      const angle = (field.direction ?? 0) * DEG;
+      const strength = field.strength ?? 50;
+      const gust = field.gust ?? 0;
+      return (position, velocity, env, out) => {
+        // Gusts sweep slowly across the view
+        const variation = gust * (valueNoise(position.x / 400, 0, env.time * 0.5) * 2 - 1);
+        const amount = strength * (1 + variation);
+        out.x += Math.cos(angle) * amount;
+        out.y += Math.sin(angle) * amount;
+      };
+    }
+  }
+}
+
+/**
+ * Most fields the GPU simulation evaluates; later ones are ignored there
+ */
+export const MAX_GPU_FORCES = 8;
+
+/**
+ * Force fields as shader uniforms for FORCE_SHADER: a kind per field and
+ * two vec4s of parameters, resolved for the current frame
+ */
+export interface PackedForces {
+  count: number;
+  time: number;
+  kinds: Float32Array;
+  params: Float32Array;
+  extra: Float32Array;
+}
+
+const FALLOFF_CODES: Record<ForceFalloff, number> = {
+  none: 0,
+  linear: 1,
+  'inverse-square': 2,
+};
+
+/**
+ * Forces as GLSL, mirroring createForce(). Expects NOISE_SHADER before it
+ * and highp floats.
+ */
+export const FORCE_SHADER = `
+  #define MAX_FORCES ${MAX_GPU_FORCES}
+  uniform int u_forceCount;
+  uniform float u_forceTime;
+  // 1: radial, 2: drag, 3: turbulence, 4: wind
+  uniform float u_forceKinds[MAX_FORCES];
+  uniform vec4 u_forceParams[MAX_FORCES];
+  uniform vec4 u_forceExtra[MAX_FORCES];
+
+  float falloffAt(float kind, float distance, float radius) {
+    if (kind < 0.5) return radius > 0.0 && distance > radius ? 0.0 : 1.0;
+    if (kind < 1.5) return radius > 0.0 ? max(0.0, 1.0 - distance / radius) : 0.0;
+    if (radius <= 0.0) return 1.0;
+    float ratio = distance / radius;
+    return 1.0 / (1.0 + ratio * ratio);
+  }
+
+  vec2 forceAt(vec2 position, vec2 velocity) {
+    vec2 total = vec2(0.0);
+    for (int i = 0; i < MAX_FORCES; i++) {
+      if (i >= u_forceCount) break;
+      float kind = u_forceKinds[i];
+      vec4 params = u_forceParams[i];
+      vec4 extra = u_forceExtra[i];
+
+      if (kind < 1.5) {
+        // Centre, radial and tangential strength; radius and falloff
+        vec2 d = position - params.xy;
+        float distance = length(d);
+        if (distance >= 1e-3) {
+          float scale = falloffAt(extra.y, distance, extra.x) / distance;
+          total += vec2(d.x * params.z - d.y * params.w, d.y * params.z + d.x * params.w) * scale;
+        }
+      } else if (kind < 2.5) {
+        total -= velocity * params.x;
+      } else if (kind < 3.5) {
+        // Strength, scale and speed
+        total += curlNoise(position / params.y, u_forceTime * params.z) * params.x;
+      } else {
+        // Acceleration and gust
+        float variation =
+          params.z * (valueNoise(vec3(position.x / 400.0, 0.0, u_forceTime * 0.5)) * 2.0 - 1.0);
+        total += params.xy * (1.0 + variation);
+      }
+    }
+    return total;
+  }
+`;
+
+/**
+ * A set of force fields acting together, e.g. on one particle effect
+ */
+export class ForceFields {
+  private forces: ForceFunction[] = [];
+  private interaction: InteractionManager | null = null;
+  private pointer = new Vec2();
+  private env: ForceEnvironment = {
+    time: 0,
+    width: 0,
+    height: 0,
+    pointer: null,
+    pointerDown: false,
+  };
+
+  private fields: ForceField[] = [];
+  private center = new Vec2();
+
+  constructor(fields: ForceField[] = []) {
+    this.setFields(fields);
+  }
+
+  setFields(fields: ForceField[]): void {
+    this.fields = fields;
+    this.forces = fields.map(createForce);
+  }
+
+  /**
+   * Where `pointer` forces read the pointer from
+   */
+  setInteraction(interaction: InteractionManager | null): void {
+    this.interaction = interaction;
+  }
+
+  resize(width: number, height: number): void {
+    this.env.width = width;
+    this.env.height = height;
+  }
+
+  /**
+   * Advance the fields to `time` (seconds) and read the pointer. Call once
+   * per frame before apply().
+   */
+  update(time: number): void {
+    const state = this.interaction?.getPointer();
+    this.env.time = time;
+    this.env.pointerDown = state?.isDown ?? false;
+    // Normalized coordinates are y up and independent of the render size
+    this.env.pointer = state?.isOver
+      ? this.pointer.set(
+          ((state.normalized.x + 1) / 2) * this.env.width,
+          ((state.normalized.y + 1) / 2) * this.env.height
+        )
+      : null;
+  }
+
+  isEmpty(): boolean {
+    return this.forces.length === 0;
+  }
+
+  /**
+   * Total acceleration at a particle, written to `out`
+   */
+  apply(position: Vec2, velocity: Vec2, out: Vec2): Vec2 {
+    out.set(0, 0);
+    for (const force of this.forces) {
+      force(position, velocity, this.env, out);
+    }
+    return out;
+  }
+
+  /**
+   * Resolve the fields for this frame into shader uniforms (see
+   * FORCE_SHADER). Inactive pointer fields are left out.
+   */
+  pack(out: PackedForces): PackedForces {
+    out.count = 0;
+    out.time = this.env.time;
+
+    for (const field of this.fields) {
+      if (out.count === MAX_GPU_FORCES) break;
+      const i = out.count;
+      const params = out.params.subarray(i * 4, i * 4 + 4);
+      const extra = out.extra.subarray(i * 4, i * 4 + 4);
+      extra.fill(0);
+
+      switch (field.type) {
+        case 'attractor':
+        case 'repulsor':
+        case 'vortex':
+        case 'pointer': {
+          const center = radialCenter(field, this.env, this.center);
+          if (!center) continue;
+          const { radial, tangential, radius, falloff } = radialParams(field);
+          out.kinds[i] = 1;
+          params.set([center.x, center.y, radial, tangential]);
+          extra.set([radius, FALLOFF_CODES[falloff]]);
+          break;
+        }
+        case 'drag':
+          out.kinds[i] = 2;
+          params.set([field.coefficient ?? 1, 0, 0, 0]);
+          break;
+        case 'turbulence':
+          out.kinds[i] = 3;
+          params.set([field.strength ?? 100, field.scale ?? 200, field.speed ?? 0.5, 0]);
+          break;
+        case 'wind': {
+          const angle = (field.direction ?? 0) * DEG;
+          const strength = field.strength ?? 50;
+          out.kinds[i] = 4;
+          params.set([Math.cos(angle) * strength, Math.sin(angle) * strength, field.gust ?? 0, 0]);
+          break;
+        }
+      }
+      out.count++;
+    }
+
+    return out;
+  }
+}
+
+/**
+ * Empty uniform storage for ForceFields.pack()
+ */
+export function createPackedForces(): PackedForces {
+  return {
+    count: 0,
+    time: 0,
+    kinds: new Float32Array(MAX_GPU_FORCES),
+    params: new Float32Array(MAX_GPU_FORCES * 4),
+    extra: new Float32Array(MAX_GPU_FORCES * 4),
+  };
+}
@@ -0,0 +1,498 @@
+/**
+ * GPU particle simulation - Positions and velocities live in ping-pong float
+ * textures and are advanced by a fragment shader, so the CPU only decides
+ * where and when particles spawn
+ *
+ * Each particle has a slot: one texel in each of three square textures.
+ * - state: x, y, velocity x, velocity y (pixels, y up)
+ * - spawn: birth time, lifetime, size, start frame
+ * - extra: packed start colour (r * 65536 + g * 256 + b, 0-255 each, or -1
+ *   for the colour uniform), start angle, spin
+ *
+ * Slots whose lifetime has run out are dead; the simulation leaves them
+ * alone and the draw shader should skip them.
+ */
+
+import { getCapabilities } from '../core/capabilities';
+import {
+  RenderTarget,
+  createFloatRenderTarget,
+  createFloatTexture,
+  deleteRenderTarget,
+} from '../utils/framebuffer';
+import { basicVertexShader, createProgram, createQuad } from '../utils/shaders';
+import { NOISE_SHADER } from '../utils/noise';
+import { FORCE_SHADER, PackedForces } from './forces';
+import type { SpriteState } from './sprites';
+
+/**
+ * What the simulation needs to know about a new particle
+ */
+export interface SimulatedParticle {
+  position: { x: number; y: number };
+  velocity: { x: number; y: number };
+  /** Lifetime in seconds */
+  maxLife: number;
+  size: number;
+  /** Start colour (0-1), or null to follow the colour uniform */
+  color: { r: number; g: number; b: number } | null;
+  sprite: SpriteState;
+}
+
+const simulationShader = `
+  precision highp float;
+
+  uniform sampler2D u_state;
+  uniform sampler2D u_spawn;
+  uniform float u_simTime;
+  uniform float u_deltaTime;
+  uniform vec2 u_gravity;
+
+  varying vec2 v_texCoord;
+
+  ${NOISE_SHADER}
+  ${FORCE_SHADER}
+
+  void main() {
+    vec4 state = texture2D(u_state, v_texCoord);
+    vec4 spawn = texture2D(u_spawn, v_texCoord);
+
+    // Particles born during the step only move for the part they lived
+    float deltaTime = min(u_deltaTime, u_simTime - spawn.x);
+
+    // Dead and not yet born slots keep their state
+    if (spawn.y <= 0.0 || u_simTime - spawn.x >= spawn.y || deltaTime <= 0.0) {
+      gl_FragColor = state;
+      return;
+    }
+
+    vec2 velocity = state.zw + (u_gravity + forceAt(state.xy, state.zw)) * deltaTime;
+    gl_FragColor = vec4(state.xy + velocity * deltaTime, velocity);
+  }
+`;
+
+/**
+ * GLSL for draw vertex shaders: the uniforms bind() sets and a helper to
+ * unpack start colours
+ */
+export const SIMULATED_PARTICLE_SHADER = `
+  attribute vec2 a_slot;
+
+  uniform sampler2D u_state;
+  uniform sampler2D u_spawn;
+  uniform sampler2D u_extra;
+  uniform float u_simTime;
+
+  vec3 unpackColor(float packed) {
+    return vec3(
+      floor(packed / 65536.0),
+      mod(floor(packed / 256.0), 256.0),
+      mod(packed, 256.0)
+    ) / 255.0;
+  }
+`;
+
+/** Longest single integration step, in seconds */
+const MAX_STEP = 1 / 30;
+/**
+ * Most steps run to catch up; time beyond them (a long frame at a high time
+ * scale, or steps missed while no effect called step()) is dropped rather
+ * than integrated in one unstable step
+ */
+const MAX_STEPS = 4;
+
+export class GpuParticleSimulation {
+  /** Slots per side of the square textures */
+  readonly side: number;
+  readonly capacity: number;
+  private targets: RenderTarget[] = [];
+  /** Index of the target holding the current state */
+  private current: number = 0;
+  private spawnTexture: WebGLTexture | null = null;
+  private extraTexture: WebGLTexture | null = null;
+  private program: WebGLProgram | null = null;
+  private quad: WebGLBuffer | null = null;
+  private slotBuffer: WebGLBuffer | null = null;
+  /** CPU copies of the spawn and extra textures */
+  private spawnData: Float32Array;
+  private extraData: Float32Array;
+  /** Start state of slots spawned since the last upload */
+  private stateData: Float32Array;
+  private pending: Uint8Array;
+  private pendingSlots: number[] = [];
+  /** The spawn and extra textures need a full upload */
+  private spawnDirty: boolean = true;
+  private time: number = 0;
+  /** Simulated seconds not yet stepped on the GPU */
+  private pendingTime: number = 0;
+  private limit: number;
+  /** Where the search for a free slot starts */
+  private cursor: number = 0;
+
+  /**
+   * Whether a context can run the simulation: it renders to float
+   * textures, has highp fragment shaders and samples four textures in
+   * vertex shaders (state, spawn, extra and one for the effect)
+   */
+  static isSupported(gl: WebGLRenderingContext): boolean {
+    const capabilities = getCapabilities(gl);
+    const highp = gl.getShaderPrecisionFormat(gl.FRAGMENT_SHADER, gl.HIGH_FLOAT);
+    return (
+      capabilities.floatRenderTargets &&
+      capabilities.maxVertexTextureUnits >= 4 &&
+      !!highp &&
+      highp.precision > 0
+    );
+  }
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(1, Math.floor(capacity));
+    this.side = Math.ceil(Math.sqrt(this.capacity));
+    this.limit = this.capacity;
+
+    const texels = this.side * this.side;
+    this.spawnData = new Float32Array(texels * 4);
+    this.extraData = new Float32Array(texels * 4);
+    this.stateData = new Float32Array(texels * 4);
+    this.pending = new Uint8Array(texels);
+  }
+
+  /**
+   * Create the GPU resources. Returns false (and cleans up) when the
+   * context can't run the simulation.
+   */
+  init(gl: WebGLRenderingContext): boolean {
+    if (!GpuParticleSimulation.isSupported(gl)) return false;
+
+    for (let i = 0; i < 2; i++) {
+      const target = createFloatRenderTarget(gl, this.side, this.side);
+      if (target) this.targets.push(target);
+    }
+    this.spawnTexture = createFloatTexture(gl, this.side, this.side);
+    this.extraTexture = createFloatTexture(gl, this.side, this.side);
+    this.program = createProgram(gl, basicVertexShader, simulationShader);
+    this.quad = createQuad(gl);
+    this.slotBuffer = gl.createBuffer();
+
+    if (
+      this.targets.length < 2 ||
+      !this.spawnTexture ||
+      !this.extraTexture ||
+      !this.program ||
+      !this.quad ||
+      !this.slotBuffer
+    ) {
+      this.destroy(gl);
+      return false;
+    }
+
+    // Texel centre of every slot, for draw shaders
+    const slots = new Float32Array(this.capacity * 2);
+    for (let i = 0; i < this.capacity; i++) {
+      slots[i * 2] = ((i % this.side) + 0.5) / this.side;
+      slots[i * 2 + 1] = (Math.floor(i / this.side) + 0.5) / this.side;
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.slotBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, slots, gl.STATIC_DRAW);
+
+    this.current = 0;
+    this.reset();
+    return true;
+  }
+
+  /**
+   * Kill every particle
+   */
+  reset(): void {
+    this.spawnData.fill(0);
+    this.extraData.fill(0);
+    this.clearPending();
+    this.spawnDirty = true;
+    this.cursor = 0;
+  }
+
+  /**
+   * Seconds simulated so far; birth times are on this clock
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Advance the clock. The GPU catches up in the next step().
+   */
+  advance(deltaTime: number): void {
+    this.time += deltaTime;
+    this.pendingTime += deltaTime;
+  }
+
+  isAlive(slot: number): boolean {
+    const lifetime = this.spawnData[slot * 4 + 1];
+    return lifetime > 0 && this.time - this.spawnData[slot * 4] < lifetime;
+  }
+
+  getAliveCount(): number {
+    let count = 0;
+    for (let i = 0; i < this.limit; i++) {
+      if (this.isAlive(i)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Use only the first `limit` slots, killing particles beyond them
+   */
+  setLimit(limit: number): void {
+    const clamped = Math.max(0, Math.min(this.capacity, Math.floor(limit)));
+    for (let i = clamped; i < this.limit; i++) {
+      this.spawnData[i * 4 + 1] = 0;
+      this.spawnDirty = true;
+    }
+    this.limit = clamped;
+    if (this.cursor >= clamped) this.cursor = 0;
+  }
+
+  /**
+   * Put a new particle into a free slot. Returns false when all slots
+   * within the limit are taken.
+   */
+  spawn(particle: SimulatedParticle): boolean {
+    for (let n = 0; n < this.limit; n++) {
+      const slot = (this.cursor + n) % this.limit;
+      if (this.isAlive(slot)) continue;
+
+      this.write(slot, particle);
+      this.cursor = (slot + 1) % this.limit;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Refill every dead slot within the limit
+   */
+  respawn(create: () => SimulatedParticle): void {
+    for (let i = 0; i < this.limit; i++) {
+      if (!this.isAlive(i)) this.write(i, create());
+    }
+  }
+
+  private write(slot: number, particle: SimulatedParticle): void {
+    const i = slot * 4;
+    const { position, velocity, color, sprite } = particle;
+
+    this.stateData.set([position.x, position.y, velocity.x, velocity.y], i);
+    this.spawnData.set([this.time, particle.maxLife, particle.size, sprite.frame], i);
+    this.extraData.set(
+      [
+        color
+          ? Math.round(color.r * 255) * 65536 +
+            Math.round(color.g * 255) * 256 +
+            Math.round(color.b * 255)
+          : -1,
+        sprite.angle,
+        sprite.spin,
+        0,
+      ],
+      i
+    );
+
+    if (!this.pending[slot]) {
+      this.pending[slot] = 1;
+      this.pendingSlots.push(slot);
+    }
+  }
+
+  private clearPending(): void {
+    for (const slot of this.pendingSlots) {
+      this.pending[slot] = 0;
+    }
+    this.pendingSlots = [];
+  }
+
+  /**
+   * Upload new particles and advance the simulation by the time passed
+   * since the last step, in steps of at most MAX_STEP. Framebuffer,
+   * viewport and blending are restored afterwards.
+   */
+  step(gl: WebGLRenderingContext, gravity: { x: number; y: number }, forces: PackedForces): void {
+    if (!this.program || !this.quad || this.targets.length < 2) return;
+
+    this.flush(gl);
+    if (this.pendingTime <= 0) return;
+
+    // The effect may be drawing into a layer target
+    const framebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+    const viewport = gl.getParameter(gl.VIEWPORT) as Int32Array;
+    const blend = gl.isEnabled(gl.BLEND);
+
+    gl.viewport(0, 0, this.side, this.side);
+    // Blending would mix old and new state
+    gl.disable(gl.BLEND);
+
+    const program = this.program;
+    gl.useProgram(program);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quad);
+    const positionLoc = gl.getAttribLocation(program, 'a_position');
+    const texCoordLoc = gl.getAttribLocation(program, 'a_texCoord');
+    gl.enableVertexAttribArray(positionLoc);
+    gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 16, 0);
+    gl.enableVertexAttribArray(texCoordLoc);
+    gl.vertexAttribPointer(texCoordLoc, 2, gl.FLOAT, false, 16, 8);
+
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, this.spawnTexture);
+    gl.activeTexture(gl.TEXTURE0);
+
+    const uniform = (name: string) => gl.getUniformLocation(program, name);
+    gl.uniform1i(uniform('u_state'), 0);
+    gl.uniform1i(uniform('u_spawn'), 1);
+    gl.uniform2f(uniform('u_gravity'), gravity.x, gravity.y);
+    gl.uniform1i(uniform('u_forceCount'), forces.count);
+    gl.uniform1f(uniform('u_forceTime'), forces.time);
+    gl.uniform1fv(uniform('u_forceKinds'), forces.kinds);
+    gl.uniform4fv(uniform('u_forceParams'), forces.params);
+    gl.uniform4fv(uniform('u_forceExtra'), forces.extra);
+
+    const total = Math.min(this.pendingTime, MAX_STEP * MAX_STEPS);
+    const steps = Math.ceil(total / MAX_STEP);
+    const deltaTime = total / steps;
+    const deltaLoc = uniform('u_deltaTime');
+    const timeLoc = uniform('u_simTime');
+    gl.uniform1f(deltaLoc, deltaTime);
+
+    for (let i = steps - 1; i >= 0; i--) {
+      const read = this.targets[this.current];
+      const write = this.targets[1 - this.current];
+      gl.bindFramebuffer(gl.FRAMEBUFFER, write.framebuffer);
+      gl.bindTexture(gl.TEXTURE_2D, read.texture);
+      // Time at the end of this step
+      gl.uniform1f(timeLoc, this.time - i * deltaTime);
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      this.current = 1 - this.current;
+    }
+    this.pendingTime = 0;
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.viewport(viewport[0], viewport[1], viewport[2], viewport[3]);
+    if (blend) gl.enable(gl.BLEND);
+  }
+
+  /**
+   * Upload spawned particles: whole textures after a reset or kill, runs
+   * of neighbouring slots otherwise. State is only written for new
+   * particles so live ones keep simulating.
+   */
+  private flush(gl: WebGLRenderingContext): void {
+    if (this.pendingSlots.length === 0 && !this.spawnDirty) return;
+
+    const slots = this.pendingSlots.sort((a, b) => a - b);
+    if (this.spawnDirty) {
+      this.uploadAll(gl, this.spawnTexture, this.spawnData);
+      this.uploadAll(gl, this.extraTexture, this.extraData);
+    } else {
+      this.uploadRuns(gl, this.spawnTexture, this.spawnData, slots);
+      this.uploadRuns(gl, this.extraTexture, this.extraData, slots);
+    }
+    this.uploadRuns(gl, this.targets[this.current].texture, this.stateData, slots);
+
+    this.spawnDirty = false;
+    this.clearPending();
+  }
+
+  private uploadAll(
+    gl: WebGLRenderingContext,
+    texture: WebGLTexture | null,
+    data: Float32Array
+  ): void {
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, this.side, this.side, gl.RGBA, gl.FLOAT, data);
+  }
+
+  private uploadRuns(
+    gl: WebGLRenderingContext,
+    texture: WebGLTexture | null,
+    data: Float32Array,
+    slots: number[]
+  ): void {
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+
+    let start = 0;
+    while (start < slots.length) {
+      const first = slots[start];
+      const row = Math.floor(first / this.side);
+      let end = start + 1;
+      while (
+        end < slots.length &&
+        slots[end] === slots[end - 1] + 1 &&
+        Math.floor(slots[end] / this.side) === row
+      ) {
+        end++;
+      }
+
+      const count = end - start;
+      gl.texSubImage2D(
+        gl.TEXTURE_2D,
+        0,
+        first % this.side,
+        row,
+        count,
+        1,
+        gl.RGBA,
+        gl.FLOAT,
+        data.subarray(first * 4, (first + count) * 4)
+      );
+      start = end;
+    }
+  }
+
+  /**
+   * Bind the textures from `unit` on and the `a_slot` attribute for a draw
+   * program using SIMULATED_PARTICLE_SHADER. Draw `capacity` points.
+   */
+  bind(gl: WebGLRenderingContext, program: WebGLProgram, unit: number): void {
+    if (this.targets.length < 2) return;
+
+    const textures = [this.targets[this.current].texture, this.spawnTexture, this.extraTexture];
+    const names = ['u_state', 'u_spawn', 'u_extra'];
+    textures.forEach((texture, i) => {
+      gl.activeTexture(gl.TEXTURE0 + unit + i);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.uniform1i(gl.getUniformLocation(program, names[i]), unit + i);
+    });
+    gl.uniform1f(gl.getUniformLocation(program, 'u_simTime'), this.time);
+
+    const slotLoc = gl.getAttribLocation(program, 'a_slot');
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.slotBuffer);
+    gl.enableVertexAttribArray(slotLoc);
+    gl.vertexAttribPointer(slotLoc, 2, gl.FLOAT, false, 0, 0);
+  }
+
+  destroy(gl: WebGLRenderingContext): void {
+    for (const target of this.targets) {
+      deleteRenderTarget(gl, target);
+    }
+    this.targets = [];
+    if (this.spawnTexture) {
+      gl.deleteTexture(this.spawnTexture);
+      this.spawnTexture = null;
+    }
+    if (this.extraTexture) {
+      gl.deleteTexture(this.extraTexture);
+      this.extraTexture = null;
+    }
+    if (this.program) {
+      gl.deleteProgram(this.program);
+      this.program = null;
+    }
+    if (this.quad) {
+      gl.deleteBuffer(this.quad);
+      this.quad = null;
+    }
+    if (this.slotBuffer) {
+      gl.deleteBuffer(this.slotBuffer);
+      this.slotBuffer = null;
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Lifetime curves - Colour, alpha and size of particles over their life,
+ * baked into lookup tables for the CPU and a texture for shaders
+ */
+
+import { KeyframeInput, KeyframeTrack } from '../animation/keyframes';
+import { clamp, hexToRgb } from '../utils/math';
+import { createFloatTexture, writeFloatTexture } from '../utils/framebuffer';
+
+/**
+ * Entries per lookup table. Age 0 (birth) maps to the first entry, age 1
+ * (death) to the last.
+ */
+export const LIFETIME_LUT_SIZE = 256;
+
+export interface LifetimeCurveOptions {
+  /** Colour over life; multiplies each particle's start colour */
+  colorOverLife?: KeyframeInput<string> | null;
+  /** Alpha over life from 0 to 1; replaces fadeOut when set */
+  alphaOverLife?: KeyframeInput<number> | null;
+  /** Size multiplier over life */
+  sizeOverLife?: KeyframeInput<number> | null;
+  /** Fade alpha linearly to 0 when there is no alpha curve */
+  fadeOut?: boolean;
+}
+
+export class LifetimeCurves {
+  /** RGBA bytes per entry: colour multiplier and alpha */
+  readonly colors = new Uint8Array(LIFETIME_LUT_SIZE * 4);
+  /** Size multiplier per entry */
+  readonly sizes = new Float32Array(LIFETIME_LUT_SIZE);
+
+  constructor(options: LifetimeCurveOptions) {
+    const color = options.colorOverLife
+      ? new KeyframeTrack(options.colorOverLife, 'colorOverLife')
+      : null;
+    const alpha = options.alphaOverLife
+      ? new KeyframeTrack(options.alphaOverLife, 'alphaOverLife')
+      : null;
+    const size = options.sizeOverLife
+      ? new KeyframeTrack(options.sizeOverLife, 'sizeOverLife')
+      : null;
+
+    for (let i = 0; i < LIFETIME_LUT_SIZE; i++) {
+      const age = i / (LIFETIME_LUT_SIZE - 1);
+      const rgb = color ? hexToRgb(color.sample(age) as string) : { r: 1, g: 1, b: 1 };
+      const a = alpha
+        ? (alpha.sample(age) as number)
+        : options.fadeOut
+          ? 1 - age
+          : 1;
+
+      this.colors.set(
+        [rgb.r, rgb.g, rgb.b, a].map(value => Math.round(clamp(value, 0, 1) * 255)),
+        i * 4
+      );
+      this.sizes[i] = size ? Math.max(0, size.sample(age) as number) : 1;
+    }
+  }
+
+  /**
+   * Lookup table index for an age from 0 to 1
+   */
+  index(age: number): number {
+    return Math.round(clamp(age, 0, 1) * (LIFETIME_LUT_SIZE - 1));
+  }
+
+  /**
+   * Upload the colour table as a 256x1 texture, reusing `texture` if given
+   */
+  upload(gl: WebGLRenderingContext, texture: WebGLTexture | null): WebGLTexture | null {
+    const target = texture ?? gl.createTexture();
+    if (!target) return null;
+
+    gl.bindTexture(gl.TEXTURE_2D, target);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA,
+      LIFETIME_LUT_SIZE,
+      1,
+      0,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      this.colors
+    );
+    gl.bindTexture(gl.TEXTURE_2D, null);
+
+    return target;
+  }
+
+  /**
+   * Upload the size table as a 256x1 float texture (size in red), reusing
+   * `texture` if given. Needs float texture support.
+   */
+  uploadSizes(gl: WebGLRenderingContext, texture: WebGLTexture | null): WebGLTexture | null {
+    const data = new Float32Array(LIFETIME_LUT_SIZE * 4);
+    this.sizes.forEach((size, i) => {
+      data[i * 4] = size;
+    });
+
+    if (!texture) return createFloatTexture(gl, LIFETIME_LUT_SIZE, 1, data);
+    writeFloatTexture(gl, texture, LIFETIME_LUT_SIZE, 1, data);
+    return texture;
+  }
+}
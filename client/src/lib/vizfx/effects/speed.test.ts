@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { GradientMesh } from './GradientMesh';
+import { WaveEffect } from './WaveEffect';
+
+/**
+ * A WebGL context that compiles anything and records uniform values by
+ * name
+ */
+function createGLStub() {
+  const uniforms = new Map<string, unknown>();
+  const gl = new Proxy(
+    {},
+    {
+      get: (_target, key) => {
+        if (typeof key !== 'string') return undefined;
+        // Constants like gl.FLOAT
+        if (key === key.toUpperCase()) return 0;
+        if (key === 'getUniformLocation') return (_program: unknown, name: string) => name;
+        if (key.startsWith('uniform')) {
+          return (name: string, value: unknown) => uniforms.set(name, value);
+        }
+        if (key === 'getShaderParameter' || key === 'getProgramParameter') return () => true;
+        return () => ({});
+      },
+    }
+  ) as WebGLRenderingContext;
+
+  return { gl, uniforms };
+}
+
+describe.each([
+  ['GradientMesh', () => new GradientMesh({ speed: 0.5 })],
+  ['WaveEffect', () => new WaveEffect({ speed: 0.5 })],
+])('%s phase', (_name, create) => {
+  const dt = 1 / 60;
+
+  /**
+   * An effect and the phase it uploads when drawn
+   */
+  function setup() {
+    const effect = create();
+    const { gl, uniforms } = createGLStub();
+    effect.init(gl);
+    effect.resize(800, 600);
+
+    const phase = (): number => {
+      effect.render(gl);
+      return uniforms.get('u_phase') as number;
+    };
+    return { effect, phase };
+  }
+
+  it('follows time * speed at a constant speed', () => {
+    const { effect, phase } = setup();
+    for (let i = 1; i <= 120; i++) effect.update(i * dt, dt);
+    expect(phase()).toBeCloseTo(2 * 0.5, 6);
+  });
+
+  it('stays continuous when the speed changes', () => {
+    const { effect, phase } = setup();
+    for (let i = 1; i <= 60; i++) effect.update(i * dt, dt);
+    const before = phase();
+
+    effect.setOptions({ speed: 4 });
+    effect.update(61 * dt, dt);
+    expect(phase() - before).toBeCloseTo(4 * dt, 6);
+  });
+
+  it('picks up where it left off after being disabled', () => {
+    const { effect, phase } = setup();
+    for (let i = 1; i <= 60; i++) effect.update(i * dt, dt);
+    effect.setOptions({ speed: 2 });
+    effect.update(61 * dt, dt);
+    const before = phase();
+
+    // VizFX skips disabled effects, so scene time moves on without them
+    effect.update(200 * dt, dt);
+    expect(phase() - before).toBeCloseTo(2 * dt, 6);
+  });
+
+  it('holds still on zero steps at the same time', () => {
+    const { effect, phase } = setup();
+    for (let i = 1; i <= 60; i++) effect.update(i * dt, dt);
+    effect.setOptions({ speed: 3 });
+    const before = phase();
+
+    // Layers held by reduced motion get zero steps
+    effect.update(60 * dt, 0);
+    expect(phase()).toBeCloseTo(before, 6);
+  });
+
+  it('starts over from time * speed after a seek', () => {
+    const { effect, phase } = setup();
+    for (let i = 1; i <= 60; i++) effect.update(i * dt, dt);
+    effect.setOptions({ speed: 2 });
+
+    // Clock.seek() reports the new time with a zero step
+    effect.update(10, 0);
+    expect(phase()).toBeCloseTo(20, 6);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Sprites - Textured, rotating and animated point particles, shared by the
+ * particle effects
+ *
+ * Sprite sheets are read left to right, top to bottom. Angles are in
+ * degrees, counter-clockwise.
+ */
+
+import type { EffectSchema } from '../core/registry';
+import { random } from '../utils/math';
+import type { Canvas2DContext } from '../utils/canvas2d';
+import { LoadedImage, SpriteTexture, TextureSource } from '../utils/texture';
+
+export interface SpriteOptions {
+  /**
+   * Image drawn for each particle, tinted by the particle colour. URLs and
+   * data URLs load in the background. (default: null, soft dots)
+   */
+  texture?: TextureSource | null;
+  /** Sprite sheet columns (default: 1) */
+  spriteColumns?: number;
+  /** Sprite sheet rows (default: 1) */
+  spriteRows?: number;
+  /** Frames used from the sheet; 0 uses every cell (default: 0) */
+  spriteFrames?: number;
+  /** Animation frames per second; 0 holds each particle's frame (default: 0) */
+  spriteFps?: number;
+  /** Start each particle on a random frame (default: true) */
+  spriteRandomStart?: boolean;
+  /** Range of random start rotations in degrees (default: 0) */
+  rotation?: number;
+  /** Maximum spin in degrees per second, either way (default: 0) */
+  angularVelocity?: number;
+}
+
+/**
+ * Option metadata shared by the particle effect schemas. Only URL textures
+ * can be stored in scenes.
+ */
+export const spriteSchema: EffectSchema = {
+  texture: {
+    type: 'string',
+    nullable: true,
+    description: 'Image URL or data URL for each particle; null for soft dots',
+  },
+  spriteColumns: {
+    type: 'integer',
+    min: 1,
+    max: 64,
+    step: 1,
+    default: 1,
+    description: 'Sprite sheet columns',
+  },
+  spriteRows: {
+    type: 'integer',
+    min: 1,
+    max: 64,
+    step: 1,
+    default: 1,
+    description: 'Sprite sheet rows',
+  },
+  spriteFrames: {
+    type: 'integer',
+    min: 0,
+    max: 4096,
+    step: 1,
+    default: 0,
+    description: 'Frames used from the sheet; 0 uses every cell',
+  },
+  spriteFps: {
+    type: 'number',
+    min: 0,
+    max: 120,
+    step: 1,
+    default: 0,
+    description: 'Sprite animation frames per second; 0 holds the frame',
+  },
+  spriteRandomStart: {
+    type: 'boolean',
+    default: true,
+    description: 'Start each particle on a random frame',
+  },
+  rotation: {
+    type: 'number',
+    min: 0,
+    max: 360,
+    step: 1,
+    default: 0,
+    description: 'Range of random start rotations in degrees',
+  },
+  angularVelocity: {
+    type: 'number',
+    min: 0,
+    max: 1080,
+    step: 5,
+    default: 0,
+    description: 'Maximum spin in degrees per second',
+  },
+};
+
+export function spriteDefaults(options: SpriteOptions): Required<SpriteOptions> {
+  return {
+    texture: options.texture ?? null,
+    spriteColumns: options.spriteColumns ?? 1,
+    spriteRows: options.spriteRows ?? 1,
+    spriteFrames: options.spriteFrames ?? 0,
+    spriteFps: options.spriteFps ?? 0,
+    spriteRandomStart: options.spriteRandomStart ?? true,
+    rotation: options.rotation ?? 0,
+    angularVelocity: options.angularVelocity ?? 0,
+  };
+}
+
+/**
+ * Rotation and animation state of one particle
+ */
+export interface SpriteState {
+  /** Radians */
+  angle: number;
+  /** Radians per second */
+  spin: number;
+  /** Fractional frame; the integer part is drawn */
+  frame: number;
+}
+
+const DEG = Math.PI / 180;
+
+/**
+ * Frames in the animation
+ */
+export function spriteFrameCount(options: Required<SpriteOptions>): number {
+  const cells = Math.max(1, options.spriteColumns * options.spriteRows);
+  return options.spriteFrames > 0 ? Math.min(options.spriteFrames, cells) : cells;
+}
+
+export function createSpriteState(options: Required<SpriteOptions>): SpriteState {
+  return {
+    angle: random(-options.rotation / 2, options.rotation / 2) * DEG,
+    spin: random(-options.angularVelocity, options.angularVelocity) * DEG,
+    frame: options.spriteRandomStart ? random(0, spriteFrameCount(options)) : 0,
+  };
+}
+
+export function advanceSprite(
+  state: SpriteState,
+  options: Required<SpriteOptions>,
+  deltaTime: number
+): void {
+  state.angle += state.spin * deltaTime;
+  state.frame = (state.frame + options.spriteFps * deltaTime) % spriteFrameCount(options);
+}
+
+/**
+ * Point sprites are enlarged by this much when textured, so rotated images
+ * keep their corners
+ */
+export const SPRITE_POINT_SCALE = Math.SQRT2;
+
+/**
+ * Fragment shader chunk. `particleShape(frame, angle)` returns the straight
+ * alpha colour of the sprite frame, or white with a soft-dot alpha while
+ * there is no texture. The vertex shader should declare
+ * `uniform float u_pointScale` and multiply gl_PointSize by it.
+ */
+export const SPRITE_SHADER = `
+  uniform sampler2D u_sprite;
+  uniform bool u_textured;
+  uniform vec2 u_spriteGrid;
+
+  vec4 particleShape(float frame, float angle) {
+    vec2 coord = gl_PointCoord - vec2(0.5);
+    if (!u_textured) {
+      float dist = length(coord);
+      if (dist > 0.5) discard;
+      return vec4(1.0, 1.0, 1.0, 1.0 - dist * 2.0);
+    }
+
+    float c = cos(angle);
+    float s = sin(angle);
+    // gl_PointCoord has y down, so this turns the image counter-clockwise
+    vec2 uv = mat2(c, s, -s, c) * coord * ${SPRITE_POINT_SCALE.toFixed(8)} + vec2(0.5);
+    if (uv.x < 0.0 || uv.y < 0.0 || uv.x > 1.0 || uv.y > 1.0) discard;
+
+    vec2 cell = vec2(mod(frame, u_spriteGrid.x), floor(frame / u_spriteGrid.x));
+    vec4 texel = texture2D(u_sprite, (cell + uv) / u_spriteGrid);
+    // The texture is premultiplied for clean filtering; layers blend
+    // straight alpha
+    return texel.a > 0.0 ? vec4(texel.rgb / texel.a, texel.a) : vec4(0.0);
+  }
+`;
+
+/**
+ * Bind the texture to `unit` and set the SPRITE_SHADER uniforms. The
+ * program must be in use.
+ */
+export function applySpriteUniforms(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram,
+  texture: SpriteTexture,
+  options: Required<SpriteOptions>,
+  unit: number
+): void {
+  const textured = texture.bind(gl, unit);
+  gl.uniform1i(gl.getUniformLocation(program, 'u_textured'), textured ? 1 : 0);
+  gl.uniform1i(gl.getUniformLocation(program, 'u_sprite'), unit);
+  gl.uniform2f(
+    gl.getUniformLocation(program, 'u_spriteGrid'),
+    Math.max(1, options.spriteColumns),
+    Math.max(1, options.spriteRows)
+  );
+  gl.uniform1f(
+    gl.getUniformLocation(program, 'u_pointScale'),
+    textured ? SPRITE_POINT_SCALE : 1
+  );
+}
+
+/**
+ * Draw one sprite frame centred on (x, y) for the Canvas 2D fallback. The
+ * image isn't tinted. Leaves the identity transform set.
+ */
+export function drawSprite(
+  ctx: Canvas2DContext,
+  image: LoadedImage,
+  options: Required<SpriteOptions>,
+  state: SpriteState,
+  x: number,
+  y: number,
+  size: number
+): void {
+  const columns = Math.max(1, options.spriteColumns);
+  const rows = Math.max(1, options.spriteRows);
+  const width =
+    (typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement
+      ? image.naturalWidth
+      : image.width) / columns;
+  const height =
+    (typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement
+      ? image.naturalHeight
+      : image.height) / rows;
+  const frame = Math.floor(state.frame) % spriteFrameCount(options);
+
+  // y points down on a 2D canvas, so negate the angle to match WebGL
+  const cos = Math.cos(-state.angle);
+  const sin = Math.sin(-state.angle);
+  ctx.setTransform(cos, sin, -sin, cos, x, y);
+  ctx.drawImage(
+    image,
+    (frame % columns) * width,
+    Math.floor(frame / columns) * height,
+    width,
+    height,
+    -size / 2,
+    -size / 2,
+    size,
+    size
+  );
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
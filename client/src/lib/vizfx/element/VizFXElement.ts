@@ -0,0 +1,378 @@
+/**
+ * <viz-fx> custom element - Drop effects into any page without a framework
+ *
+ *   <viz-fx scene="aurora"></viz-fx>
+ *
+ *   <viz-fx>
+ *     <viz-effect type="gradient-mesh" colors="#667eea, #764ba2" speed="0.4"></viz-effect>
+ *     <viz-effect type="floating-particles" count="60" blend-mode="additive"></viz-effect>
+ *   </viz-fx>
+ */
+
+import { VizFX } from '../core/VizFX';
+import { Effect } from '../core/Effect';
+import { LayerOptions } from '../core/Layer';
+import { OptionSchema } from '../core/registry';
+import {
+  SceneJSON,
+  createEffect,
+  parseEffectOptions,
+  parseLayerOptions,
+} from '../core/scene';
+
+/**
+ * Attributes of <viz-effect> that configure its layer rather than the effect
+ */
+const LAYER_ATTRIBUTES: Record<string, OptionSchema & { key: keyof LayerOptions }> = {
+  'z-index': { key: 'zIndex', type: 'number', default: 0 },
+  opacity: { key: 'opacity', type: 'number', default: 1 },
+  visible: { key: 'visible', type: 'boolean', default: true },
+  'blend-mode': { key: 'blendMode', type: 'string', default: 'normal' },
+  'reduced-motion': { key: 'reducedMotion', type: 'string', default: null },
+};
+
+// Lets the module load where custom elements don't exist (workers, SSR)
+const ElementBase: typeof HTMLElement =
+  typeof HTMLElement !== 'undefined'
+    ? HTMLElement
+    : (class {} as unknown as typeof HTMLElement);
+
+/**
+ * Declares one effect inside <viz-fx>. `type` names a registered effect;
+ * other attributes are its options in kebab-case (`connection-distance`),
+ * plus `z-index`, `opacity`, `visible` and `blend-mode` for the layer.
+ * Changing an attribute updates the running effect.
+ */
+export class VizEffectElement extends ElementBase {
+  /**
+   * The effect created for this element, while its <viz-fx> is connected
+   */
+  getEffect(): Effect | null {
+    const host = this.parentElement;
+    return host instanceof VizFXElement ? host.getEffectFor(this) : null;
+  }
+}
+
+export class VizFXElement extends ElementBase {
+  static get observedAttributes(): string[] {
+    return ['scene', 'label'];
+  }
+
+  private viz: VizFX | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private childEffects = new Map<Element, Effect>();
+  private observer: MutationObserver | null = null;
+
+  constructor() {
+    super();
+    const root = this.attachShadow({ mode: 'open' });
+    root.innerHTML =
+      '<style>:host{display:block;position:relative}' +
+      'canvas{position:absolute;inset:0;width:100%;height:100%;display:block}</style>';
+  }
+
+  /**
+   * The running VizFX instance, null while disconnected
+   */
+  getVizFX(): VizFX | null {
+    return this.viz;
+  }
+
+  /**
+   * The effect created for a <viz-effect> child
+   */
+  getEffectFor(element: Element): Effect | null {
+    return this.childEffects.get(element) ?? null;
+  }
+
+  connectedCallback(): void {
+    this.build();
+
+    this.observer = new MutationObserver(this.handleMutations);
+    this.observer.observe(this, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+    });
+  }
+
+  disconnectedCallback(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.teardown();
+  }
+
+  attributeChangedCallback(name: string, previous: string | null, value: string | null): void {
+    // Before connecting, connectedCallback reads the attributes itself
+    if (previous === value || !this.observer) return;
+
+    if (name === 'label') {
+      this.applyLabel();
+    } else {
+      this.teardown();
+      this.build();
+    }
+  }
+
+  /**
+   * Create the canvas, the VizFX instance and all effects
+   */
+  private build(): void {
+    // A fresh canvas each time, so context attributes from the scene apply
+    this.canvas = document.createElement('canvas');
+    this.shadowRoot!.appendChild(this.canvas);
+    this.applyLabel();
+
+    try {
+      const scene = this.getScene();
+      this.viz = scene
+        ? VizFX.fromJSON(scene, this.canvas)
+        : new VizFX({ canvas: this.canvas });
+    } catch (error) {
+      console.error('VizFX element error:', error);
+      return;
+    }
+
+    this.syncChildren();
+    this.viz.start();
+  }
+
+  /**
+   * A `label` describes the animation to assistive technology; without one
+   * it is decoration and hidden
+   */
+  private applyLabel(): void {
+    if (!this.canvas) return;
+
+    const label = this.getAttribute('label');
+    if (label) {
+      this.canvas.removeAttribute('aria-hidden');
+      this.canvas.setAttribute('role', 'img');
+      this.canvas.setAttribute('aria-label', label);
+    } else {
+      this.canvas.removeAttribute('role');
+      this.canvas.removeAttribute('aria-label');
+      this.canvas.setAttribute('aria-hidden', 'true');
+    }
+  }
+
+  private teardown(): void {
+    this.childEffects.clear();
+    this.viz?.destroy();
+    this.viz = null;
+    this.canvas?.remove();
+    this.canvas = null;
+  }
+
+  /**
+   * The `scene` attribute as a scene: inline JSON or a preset name
+   */
+  private getScene(): SceneJSON | string | null {
+    const value = this.getAttribute('scene')?.trim();
+    if (!value) return null;
+    if (value.startsWith('{')) return value;
+
+    const preset = VizFX.getPreset(value);
+    if (!preset) {
+      throw new Error(
+        `Unknown scene preset "${value}" (available: ${VizFX.getPresetNames().join(', ')})`
+      );
+    }
+    return preset;
+  }
+
+  /**
+   * Recreate the effects of all <viz-effect> children, in document order
+   * and above the scene's own effects
+   */
+  private syncChildren(): void {
+    const viz = this.viz;
+    if (!viz) return;
+
+    this.childEffects.forEach(effect => viz.removeEffect(effect));
+    this.childEffects.clear();
+
+    Array.from(this.children).forEach((child, index) => {
+      if (!(child instanceof VizEffectElement)) return;
+
+      try {
+        const type = child.getAttribute('type') ?? '';
+        const { options, layer } = readEffectAttributes(child, type);
+        const effect = createEffect({ type, options }, `viz-effect[${index}]`);
+        viz.addEffect(effect, parseLayerOptions(layer, `viz-effect[${index}]`));
+        this.childEffects.set(child, effect);
+      } catch (error) {
+        console.error('VizFX element error:', error);
+      }
+    });
+  }
+
+  private handleMutations = (mutations: MutationRecord[]): void => {
+    let structureChanged = false;
+
+    for (const mutation of mutations) {
+      const target = mutation.target as Element;
+
+      if (mutation.type === 'childList') {
+        structureChanged ||= target === this;
+      } else if (target.parentElement === this && mutation.attributeName) {
+        if (mutation.attributeName === 'type') {
+          structureChanged = true;
+        } else {
+          this.updateAttribute(target, mutation.attributeName);
+        }
+      }
+    }
+
+    if (structureChanged) this.syncChildren();
+  };
+
+  /**
+   * Apply one changed <viz-effect> attribute to its running effect. A
+   * removed attribute restores the default.
+   */
+  private updateAttribute(element: Element, attribute: string): void {
+    const effect = this.childEffects.get(element);
+    if (!effect || !this.viz) return;
+
+    const value = element.getAttribute(attribute);
+    const path = `viz-effect[${Array.from(this.children).indexOf(element)}]`;
+
+    try {
+      const layerField = LAYER_ATTRIBUTES[attribute];
+      if (layerField) {
+        const raw = value === null ? layerField.default : parseAttribute(value, layerField);
+        // null restores the effect's own reduced-motion policy
+        const layer =
+          raw === null
+            ? { [layerField.key]: null }
+            : parseLayerOptions({ [layerField.key]: raw }, path);
+        this.viz.getLayer(effect)?.set(layer);
+      } else {
+        const type = element.getAttribute('type') ?? '';
+        const schema = VizFX.getEffectSchema(type) ?? {};
+        const key = findOption(schema, attribute);
+        if (!key) return;
+
+        // A removed attribute restores the default, or clears a nullable option
+        const field = schema[key];
+        const raw =
+          value === null
+            ? (field.default ?? (field.nullable ? null : undefined))
+            : parseAttribute(value, field);
+        if (raw === undefined) return;
+        effect.setOptions?.(parseEffectOptions(type, { [key]: raw }, `${path}.options`));
+      }
+    } catch (error) {
+      console.error('VizFX element error:', error);
+    }
+  }
+}
+
+/**
+ * Options and layer settings from a <viz-effect>'s attributes
+ */
+function readEffectAttributes(
+  element: Element,
+  type: string
+): { options: Record<string, unknown>; layer: Record<string, unknown> } {
+  const schema = VizFX.getEffectSchema(type) ?? {};
+  const options: Record<string, unknown> = {};
+  const layer: Record<string, unknown> = {};
+
+  for (const { name, value } of Array.from(element.attributes)) {
+    const layerField = LAYER_ATTRIBUTES[name];
+    if (layerField) {
+      layer[layerField.key] = parseAttribute(value, layerField);
+      continue;
+    }
+
+    // Anything else that isn't an option (id, class, style...) is ignored
+    const key = findOption(schema, name);
+    if (key) options[key] = parseAttribute(value, schema[key]);
+  }
+
+  return { options, layer };
+}
+
+/**
+ * Option name for an attribute: `connection-distance` and the lowercased
+ * `connectiondistance` both map to `connectionDistance`
+ */
+function findOption(schema: Record<string, OptionSchema>, attribute: string): string | null {
+  const normalized = attribute.replace(/-/g, '').toLowerCase();
+  return Object.keys(schema).find(key => key.toLowerCase() === normalized) ?? null;
+}
+
+/**
+ * Convert attribute text to an option value. Text that doesn't convert is
+ * passed through unchanged so validation reports it as written.
+ */
+function parseAttribute(value: string, schema: OptionSchema): unknown {
+  const text = value.trim();
+
+  switch (schema.type) {
+    case 'number':
+    case 'integer': {
+      const number = Number(text);
+      return text !== '' && Number.isFinite(number) ? number : value;
+    }
+    case 'boolean':
+      // Presence means true, as with standard boolean attributes
+      if (text === '' || text === 'true') return true;
+      if (text === 'false') return false;
+      return value;
+    case 'color[]':
+      if (text.startsWith('[')) {
+        try {
+          return JSON.parse(text);
+        } catch {
+          return value;
+        }
+      }
+      return text.split(/[\s,]+/).filter(Boolean);
+    case 'vec2': {
+      const parts = text.split(/[\s,]+/).map(Number);
+      return parts.length === 2 && parts.every(Number.isFinite)
+        ? { x: parts[0], y: parts[1] }
+        : value;
+    }
+    case 'keyframes':
+      // JSON stops, or a plain list like "1, 0.5, 0" or "#ffffff, #ff8800"
+      if (text.startsWith('[')) {
+        try {
+          return JSON.parse(text);
+        } catch {
+          return value;
+        }
+      }
+      return text
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(item => (schema.keyframeType === 'color' ? item : Number(item)));
+    case 'object':
+    case 'object[]':
+      // JSON, e.g. emitter='{"type": "cone", "spread": 30}'
+      try {
+        return JSON.parse(text);
+      } catch {
+        return value;
+      }
+    default:
+      return text;
+  }
+}
+
+/**
+ * Register <viz-fx> and <viz-effect>. Safe to call more than once.
+ */
+export function defineVizFXElements(): void {
+  if (typeof customElements === 'undefined') return;
+
+  if (!customElements.get('viz-effect')) {
+    customElements.define('viz-effect', VizEffectElement);
+  }
+  if (!customElements.get('viz-fx')) {
+    customElements.define('viz-fx', VizFXElement);
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Element entry point. Registers <viz-fx> and <viz-effect> when loaded:
+ * <script type="module" src="vizfx/element/define.js"></script>
+ */
+
+import { defineVizFXElements } from './VizFXElement';
+
+defineVizFXElements();
@@ -5,12 +5,72 @@
 
 // Core
 export { VizFX } from './core/VizFX';
-export type { VizFXOptions } from './core/VizFX';
+export type { VizFXOptions, VizFXEventMap, FallbackInfo } from './core/VizFX';
 export type { Effect, EffectOptions } from './core/Effect';
+export { Clock } from './core/Clock';
+export type { ClockOptions, ClockStepCallback } from './core/Clock';
+export { QualityGovernor, QUALITY_LEVELS, QUALITY_DPR_SCALE, QUALITY_DETAIL_SCALE } from './core/QualityGovernor';
+export type { QualityLevel, QualityGovernorOptions, QualityChange } from './core/QualityGovernor';
+export { Layer, BLEND_MODES, applyBlendMode } from './core/Layer';
+export type { LayerOptions, BlendMode } from './core/Layer';
+export { getCapabilities, isWebGL2 } from './core/capabilities';
+export type { RendererCapabilities, RenderBackend } from './core/capabilities';
+export { SCENE_VERSION, SceneValidationError, parseScene } from './core/scene';
+export type { SceneJSON, SceneEffectJSON, SceneOptions } from './core/scene';
+export type { EffectFactory, EffectSchema, OptionSchema, OptionType } from './core/registry';
+export { registerScenePreset, getScenePreset, getScenePresetNames } from './core/presets';
+export { REDUCED_MOTION_POLICIES } from './core/motion';
+export type { ReducedMotionPolicy } from './core/motion';
+export { PauseControl } from './core/PauseControl';
+export type { PauseControlOptions } from './core/PauseControl';
+export { StatsOverlay, formatStats } from './core/StatsOverlay';
+export type { StatsOverlayOptions, StatsSource } from './core/StatsOverlay';
+export type { VizFXStats, EffectStats, TimingStats } from './core/Stats';
+
+// Animation
+export { Tween } from './animation/Tween';
+export type { TweenOptions, Animation } from './animation/Tween';
+export { Timeline } from './animation/Timeline';
+export type { TimelineOptions, TimelineTweenOptions } from './animation/Timeline';
+export { EASINGS } from './animation/easing';
+export type { Easing, EasingName } from './animation/easing';
+export { ScrollDriver } from './animation/ScrollDriver';
+export type { ScrollDriverOptions, ScrollTracks } from './animation/ScrollDriver';
+export { KeyframeTrack } from './animation/keyframes';
+export type { Keyframe, KeyframeInput } from './animation/keyframes';
+export { interpolate } from './animation/values';
+export type { AnimatableValue, AnimatableProperties } from './animation/values';
 
 // Effects
 export { ParticleSystem } from './effects/ParticleSystem';
-export type { ParticleSystemOptions } from './effects/ParticleSystem';
+export type { ParticleSystemOptions, ParticleSimulation } from './effects/ParticleSystem';
+export { EMITTER_SHAPES, createEmitterSampler } from './effects/emitters';
+export type { EmitterShape, EmitterShapeType, EmitterSample, EmitterSampler } from './effects/emitters';
+export { LifetimeCurves, LIFETIME_LUT_SIZE } from './effects/lifetime';
+export type { LifetimeCurveOptions } from './effects/lifetime';
+export { SPRITE_SHADER, spriteSchema } from './effects/sprites';
+export type { SpriteOptions, SpriteState } from './effects/sprites';
+export {
+  FORCE_FIELDS,
+  FORCE_FALLOFFS,
+  FORCE_SHADER,
+  MAX_GPU_FORCES,
+  ForceFields,
+  createForce,
+  createPackedForces,
+  falloffAt,
+} from './effects/forces';
+export type {
+  ForceField,
+  ForceFieldType,
+  ForceFalloff,
+  ForceEnvironment,
+  ForceFunction,
+  PackedForces,
+  PointerForceMode,
+} from './effects/forces';
+export { GpuParticleSimulation, SIMULATED_PARTICLE_SHADER } from './effects/gpuParticles';
+export type { SimulatedParticle } from './effects/gpuParticles';
 
 export { WaveEffect } from './effects/WaveEffect';
 export type { WaveEffectOptions } from './effects/WaveEffect';
@@ -21,7 +81,43 @@ export type { FloatingParticlesOptions } from './effects/FloatingParticles';
 export { GradientMesh } from './effects/GradientMesh';
 export type { GradientMeshOptions } from './effects/GradientMesh';
 
+// Custom elements
+export { VizFXElement, VizEffectElement, defineVizFXElements } from './element/VizFXElement';
+
+// Worker
+export { VizFXWorker } from './worker/VizFXWorker';
+export type { VizFXWorkerOptions } from './worker/VizFXWorker';
+export { runVizFXWorker } from './worker/host';
+export type { EffectConfig } from './worker/protocol';
+
+// Post-processing
+export { PostProcessStack } from './postprocess/PostProcessStack';
+export { ShaderPass } from './postprocess/Pass';
+export type { PostProcessPass, PassContext } from './postprocess/Pass';
+export { BloomPass } from './postprocess/passes/BloomPass';
+export type { BloomPassOptions } from './postprocess/passes/BloomPass';
+export { BlurPass } from './postprocess/passes/BlurPass';
+export type { BlurPassOptions } from './postprocess/passes/BlurPass';
+export { VignettePass } from './postprocess/passes/VignettePass';
+export type { VignettePassOptions } from './postprocess/passes/VignettePass';
+export { FilmGrainPass } from './postprocess/passes/FilmGrainPass';
+export type { FilmGrainPassOptions } from './postprocess/passes/FilmGrainPass';
+export { ChromaticAberrationPass } from './postprocess/passes/ChromaticAberrationPass';
+export type { ChromaticAberrationPassOptions } from './postprocess/passes/ChromaticAberrationPass';
+
+// Capture
+export { FrameRecorder } from './capture/FrameRecorder';
+export type {
+  FrameRecorderOptions,
+  RecordedFrame,
+  VideoRecordingOptions,
+} from './capture/FrameRecorder';
+
 // Utils
-export { Vec2, lerp, clamp, map, smoothstep, random, randomInt, hexToRgb } from './utils/math';
+export { Vec2, lerp, clamp, map, smoothstep, random, randomInt, seedRandom, hexToRgb, rgbToHex } from './utils/math';
 export { InteractionManager } from './utils/interaction';
-export type { PointerState } from './utils/interaction';
+export type { Canvas2DContext } from './utils/canvas2d';
+export { SpriteTexture, loadImage } from './utils/texture';
+export { valueNoise, curlNoise, NOISE_SHADER } from './utils/noise';
+export type { TextureSource, LoadedImage } from './utils/texture';
+export type { PointerState, SerializedPointerState } from './utils/interaction';
@@ -0,0 +1,142 @@
+/**
+ * Base types for post-processing passes
+ */
+
+import { RenderTarget, bindRenderTarget } from '../utils/framebuffer';
+import { basicVertexShader, createProgram } from '../utils/shaders';
+
+/**
+ * Per-frame information handed to every pass
+ */
+export interface PassContext {
+  /** Total elapsed time in seconds */
+  time: number;
+  /** Drawing buffer size in pixels */
+  width: number;
+  height: number;
+  /** Shared full-screen quad (see createQuad) */
+  quad: WebGLBuffer;
+}
+
+/**
+ * A full-screen pass in a PostProcessStack
+ */
+export interface PostProcessPass {
+  enabled: boolean;
+
+  /**
+   * Create programs and intermediate targets
+   */
+  init(gl: WebGLRenderingContext): void;
+
+  /**
+   * Read `input` and draw into `output` (the canvas when null)
+   */
+  render(
+    gl: WebGLRenderingContext,
+    input: WebGLTexture,
+    output: RenderTarget | null,
+    context: PassContext
+  ): void;
+
+  /**
+   * Handle drawing buffer resize (in pixels)
+   */
+  resize(width: number, height: number): void;
+
+  /**
+   * Clean up resources
+   */
+  destroy(gl: WebGLRenderingContext): void;
+}
+
+/**
+ * Draw a full-screen quad with `program`, sampling `input` as `u_texture`.
+ * `u_resolution` is set to the output size and `u_time` to the frame time.
+ */
+export function drawFullscreen(
+  gl: WebGLRenderingContext,
+  program: WebGLProgram,
+  input: WebGLTexture,
+  output: RenderTarget | null,
+  context: PassContext,
+  setUniforms?: (program: WebGLProgram) => void
+): void {
+  bindRenderTarget(gl, output);
+  gl.useProgram(program);
+
+  // Bind quad
+  gl.bindBuffer(gl.ARRAY_BUFFER, context.quad);
+
+  const positionLoc = gl.getAttribLocation(program, 'a_position');
+  const texCoordLoc = gl.getAttribLocation(program, 'a_texCoord');
+
+  gl.enableVertexAttribArray(positionLoc);
+  gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 16, 0);
+
+  gl.enableVertexAttribArray(texCoordLoc);
+  gl.vertexAttribPointer(texCoordLoc, 2, gl.FLOAT, false, 16, 8);
+
+  // Input texture on unit 0
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, input);
+  gl.uniform1i(gl.getUniformLocation(program, 'u_texture'), 0);
+
+  const width = output ? output.width : context.width;
+  const height = output ? output.height : context.height;
+  gl.uniform2f(gl.getUniformLocation(program, 'u_resolution'), width, height);
+  gl.uniform1f(gl.getUniformLocation(program, 'u_time'), context.time);
+
+  setUniforms?.(program);
+
+  gl.drawArrays(gl.TRIANGLES, 0, 6);
+}
+
+/**
+ * Convenience base class for passes made of a single fragment shader
+ */
+export abstract class ShaderPass implements PostProcessPass {
+  enabled: boolean = true;
+  protected program: WebGLProgram | null = null;
+  protected width: number = 0;
+  protected height: number = 0;
+
+  protected abstract readonly fragmentShader: string;
+
+  init(gl: WebGLRenderingContext): void {
+    this.program = createProgram(gl, basicVertexShader, this.fragmentShader);
+  }
+
+  render(
+    gl: WebGLRenderingContext,
+    input: WebGLTexture,
+    output: RenderTarget | null,
+    context: PassContext
+  ): void {
+    if (!this.program) return;
+
+    drawFullscreen(gl, this.program, input, output, context, program =>
+      this.setUniforms(gl, program)
+    );
+  }
+
+  /**
+   * Upload pass-specific uniforms
+   */
+  protected abstract setUniforms(
+    gl: WebGLRenderingContext,
+    program: WebGLProgram
+  ): void;
+
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+  }
+
+  destroy(gl: WebGLRenderingContext): void {
+    if (this.program) {
+      gl.deleteProgram(this.program);
+      this.program = null;
+    }
+  }
+}
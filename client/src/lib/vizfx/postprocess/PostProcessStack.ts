@@ -0,0 +1,174 @@
+/**
+ * Post-processing stack - Renders the scene offscreen and runs a chain of
+ * full-screen passes over it
+ */
+
+import { PassContext, PostProcessPass } from './Pass';
+import {
+  RenderTarget,
+  bindRenderTarget,
+  createRenderTarget,
+  deleteRenderTarget,
+  resizeRenderTarget,
+} from '../utils/framebuffer';
+import { createQuad } from '../utils/shaders';
+
+export class PostProcessStack {
+  private passes: PostProcessPass[] = [];
+  private gl: WebGLRenderingContext | null = null;
+  private quad: WebGLBuffer | null = null;
+  private readTarget: RenderTarget | null = null;
+  private writeTarget: RenderTarget | null = null;
+  private width: number = 1;
+  private height: number = 1;
+
+  /**
+   * Append a pass to the end of the chain
+   */
+  addPass(pass: PostProcessPass): PostProcessStack {
+    this.passes.push(pass);
+
+    if (this.gl) {
+      pass.init(this.gl);
+      pass.resize(this.width, this.height);
+    }
+
+    return this;
+  }
+
+  /**
+   * Remove a pass from the chain
+   */
+  removePass(pass: PostProcessPass): PostProcessStack {
+    const index = this.passes.indexOf(pass);
+    if (index !== -1) {
+      if (this.gl) pass.destroy(this.gl);
+      this.passes.splice(index, 1);
+    }
+
+    return this;
+  }
+
+  /**
+   * Get all passes in order
+   */
+  getPasses(): readonly PostProcessPass[] {
+    return this.passes;
+  }
+
+  /**
+   * Whether any pass is enabled. When none is, VizFX renders directly to
+   * the canvas and skips the offscreen copy.
+   */
+  isActive(): boolean {
+    return this.passes.some(pass => pass.enabled);
+  }
+
+  /**
+   * Create GPU resources. Called by VizFX, including after a context restore.
+   */
+  init(gl: WebGLRenderingContext): void {
+    this.gl = gl;
+    this.quad = createQuad(gl);
+    this.readTarget = createRenderTarget(gl, this.width, this.height);
+    this.writeTarget = createRenderTarget(gl, this.width, this.height);
+
+    for (const pass of this.passes) {
+      pass.init(gl);
+      pass.resize(this.width, this.height);
+    }
+  }
+
+  /**
+   * Handle drawing buffer resize (in pixels)
+   */
+  resize(width: number, height: number): void {
+    this.width = Math.max(1, Math.floor(width));
+    this.height = Math.max(1, Math.floor(height));
+
+    if (this.gl && this.readTarget && this.writeTarget) {
+      resizeRenderTarget(this.gl, this.readTarget, this.width, this.height);
+      resizeRenderTarget(this.gl, this.writeTarget, this.width, this.height);
+    }
+
+    for (const pass of this.passes) {
+      pass.resize(this.width, this.height);
+    }
+  }
+
+  /**
+   * Redirect scene rendering into the offscreen texture
+   */
+  begin(gl: WebGLRenderingContext): void {
+    if (!this.readTarget) return;
+
+    bindRenderTarget(gl, this.readTarget);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+  }
+
+  /**
+   * The offscreen target the scene is rendered into between begin() and end()
+   */
+  getSceneTarget(): RenderTarget | null {
+    return this.readTarget;
+  }
+
+  /**
+   * Run the enabled passes; the last one draws to the canvas
+   */
+  end(gl: WebGLRenderingContext, time: number): void {
+    if (!this.quad || !this.readTarget || !this.writeTarget) return;
+
+    const active = this.passes.filter(pass => pass.enabled);
+    const context: PassContext = {
+      time,
+      width: this.width,
+      height: this.height,
+      quad: this.quad,
+    };
+
+    // Passes replace pixels rather than blend over them
+    gl.disable(gl.BLEND);
+
+    let input = this.readTarget;
+    let output = this.writeTarget;
+
+    for (let i = 0; i < active.length; i++) {
+      const isLast = i === active.length - 1;
+      active[i].render(gl, input.texture, isLast ? null : output, context);
+
+      if (!isLast) {
+        const previous = input;
+        input = output;
+        output = previous;
+      }
+    }
+
+    gl.enable(gl.BLEND);
+    bindRenderTarget(gl, null);
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(gl: WebGLRenderingContext): void {
+    for (const pass of this.passes) {
+      pass.destroy(gl);
+    }
+
+    if (this.quad) {
+      gl.deleteBuffer(this.quad);
+      this.quad = null;
+    }
+    if (this.readTarget) {
+      deleteRenderTarget(gl, this.readTarget);
+      this.readTarget = null;
+    }
+    if (this.writeTarget) {
+      deleteRenderTarget(gl, this.writeTarget);
+      this.writeTarget = null;
+    }
+
+    this.gl = null;
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Bloom Pass - Blurs bright areas and adds them back as glow
+ */
+
+import { PassContext, PostProcessPass, drawFullscreen } from '../Pass';
+import { gaussianBlurShader } from './BlurPass';
+import {
+  RenderTarget,
+  createRenderTarget,
+  deleteRenderTarget,
+  resizeRenderTarget,
+} from '../../utils/framebuffer';
+import { basicVertexShader, createProgram } from '../../utils/shaders';
+
+export interface BloomPassOptions {
+  /** Luminance above which pixels start to glow (0-1) */
+  threshold?: number;
+  strength?: number;
+  /** Blur radius in pixels of the downsampled glow */
+  radius?: number;
+  /** Resolution of the glow buffers relative to the canvas */
+  resolution?: number;
+}
+
+const thresholdShader = `
+  precision mediump float;
+
+  uniform sampler2D u_texture;
+  uniform float u_threshold;
+
+  varying vec2 v_texCoord;
+
+  void main() {
+    vec4 color = texture2D(u_texture, v_texCoord);
+    float luminance = dot(color.rgb, vec3(0.2126, 0.7152, 0.0722));
+    float weight = smoothstep(u_threshold, u_threshold + 0.1, luminance);
+    gl_FragColor = vec4(color.rgb * weight * color.a, 1.0);
+  }
+`;
+
+const compositeShader = `
+  precision mediump float;
+
+  uniform sampler2D u_texture;
+  uniform sampler2D u_bloom;
+  uniform float u_strength;
+
+  varying vec2 v_texCoord;
+
+  void main() {
+    vec4 color = texture2D(u_texture, v_texCoord);
+    vec3 bloom = texture2D(u_bloom, v_texCoord).rgb * u_strength;
+    float alpha = max(color.a, max(bloom.r, max(bloom.g, bloom.b)));
+    gl_FragColor = vec4(color.rgb + bloom, clamp(alpha, 0.0, 1.0));
+  }
+`;
+
+export class BloomPass implements PostProcessPass {
+  enabled: boolean = true;
+  private options: Required<BloomPassOptions>;
+  private thresholdProgram: WebGLProgram | null = null;
+  private blurProgram: WebGLProgram | null = null;
+  private compositeProgram: WebGLProgram | null = null;
+  private brightTarget: RenderTarget | null = null;
+  private blurTarget: RenderTarget | null = null;
+
+  constructor(options: BloomPassOptions = {}) {
+    this.options = {
+      threshold: options.threshold ?? 0.7,
+      strength: options.strength ?? 1.0,
+      radius: options.radius ?? 8,
+      resolution: options.resolution ?? 0.5,
+    };
+  }
+
+  init(gl: WebGLRenderingContext): void {
+    this.thresholdProgram = createProgram(gl, basicVertexShader, thresholdShader);
+    this.blurProgram = createProgram(gl, basicVertexShader, gaussianBlurShader);
+    this.compositeProgram = createProgram(gl, basicVertexShader, compositeShader);
+    this.brightTarget = createRenderTarget(gl, 1, 1);
+    this.blurTarget = createRenderTarget(gl, 1, 1);
+  }
+
+  render(
+    gl: WebGLRenderingContext,
+    input: WebGLTexture,
+    output: RenderTarget | null,
+    context: PassContext
+  ): void {
+    if (
+      !this.thresholdProgram ||
+      !this.blurProgram ||
+      !this.compositeProgram ||
+      !this.brightTarget ||
+      !this.blurTarget
+    ) {
+      return;
+    }
+
+    const { threshold, strength, radius, resolution } = this.options;
+    const bright = this.brightTarget;
+    const blur = this.blurTarget;
+
+    // Glow buffers run at reduced resolution; the blur hides the difference
+    const w = context.width * resolution;
+    const h = context.height * resolution;
+    resizeRenderTarget(gl, bright, w, h);
+    resizeRenderTarget(gl, blur, w, h);
+
+    // 1. Extract bright areas
+    drawFullscreen(gl, this.thresholdProgram, input, bright, context, program => {
+      gl.uniform1f(gl.getUniformLocation(program, 'u_threshold'), threshold);
+    });
+
+    // 2. Blur them (horizontal then vertical)
+    const blurRadius = radius * resolution;
+    drawFullscreen(gl, this.blurProgram, bright.texture, blur, context, program => {
+      gl.uniform2f(gl.getUniformLocation(program, 'u_direction'), 1, 0);
+      gl.uniform1f(gl.getUniformLocation(program, 'u_radius'), blurRadius);
+    });
+    drawFullscreen(gl, this.blurProgram, blur.texture, bright, context, program => {
+      gl.uniform2f(gl.getUniformLocation(program, 'u_direction'), 0, 1);
+      gl.uniform1f(gl.getUniformLocation(program, 'u_radius'), blurRadius);
+    });
+
+    // 3. Add the glow back over the scene
+    drawFullscreen(gl, this.compositeProgram, input, output, context, program => {
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, bright.texture);
+      gl.uniform1i(gl.getUniformLocation(program, 'u_bloom'), 1);
+      gl.uniform1f(gl.getUniformLocation(program, 'u_strength'), strength);
+      gl.activeTexture(gl.TEXTURE0);
+    });
+  }
+
+  resize(width: number, height: number): void {
+    // Glow buffers follow the frame size at render time
+  }
+
+  destroy(gl: WebGLRenderingContext): void {
+    for (const program of [
+      this.thresholdProgram,
+      this.blurProgram,
+      this.compositeProgram,
+    ]) {
+      if (program) gl.deleteProgram(program);
+    }
+    this.thresholdProgram = null;
+    this.blurProgram = null;
+    this.compositeProgram = null;
+
+    if (this.brightTarget) {
+      deleteRenderTarget(gl, this.brightTarget);
+      this.brightTarget = null;
+    }
+    if (this.blurTarget) {
+      deleteRenderTarget(gl, this.blurTarget);
+      this.blurTarget = null;
+    }
+  }
+
+  setOptions(options: BloomPassOptions): void {
+    Object.assign(this.options, options);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Blur Pass - Separable gaussian blur
+ */
+
+import { PassContext, PostProcessPass, drawFullscreen } from '../Pass';
+import {
+  RenderTarget,
+  createRenderTarget,
+  deleteRenderTarget,
+  resizeRenderTarget,
+} from '../../utils/framebuffer';
+import { basicVertexShader, createProgram } from '../../utils/shaders';
+
+/**
+ * 9-tap gaussian along `u_direction`. Run once horizontally and once
+ * vertically for a full 2D blur.
+ */
+export const gaussianBlurShader = `
+  precision mediump float;
+
+  uniform sampler2D u_texture;
+  uniform vec2 u_resolution;
+  uniform vec2 u_direction;
+  uniform float u_radius;
+
+  varying vec2 v_texCoord;
+
+  void main() {
+    vec2 texel = u_direction * (u_radius / 4.0) / u_resolution;
+
+    vec4 color = texture2D(u_texture, v_texCoord) * 0.2270270270;
+    color += texture2D(u_texture, v_texCoord + texel * 1.0) * 0.1945945946;
+    color += texture2D(u_texture, v_texCoord - texel * 1.0) * 0.1945945946;
+    color += texture2D(u_texture, v_texCoord + texel * 2.0) * 0.1216216216;
+    color += texture2D(u_texture, v_texCoord - texel * 2.0) * 0.1216216216;
+    color += texture2D(u_texture, v_texCoord + texel * 3.0) * 0.0540540541;
+    color += texture2D(u_texture, v_texCoord - texel * 3.0) * 0.0540540541;
+    color += texture2D(u_texture, v_texCoord + texel * 4.0) * 0.0162162162;
+    color += texture2D(u_texture, v_texCoord - texel * 4.0) * 0.0162162162;
+
+    gl_FragColor = color;
+  }
+`;
+
+export interface BlurPassOptions {
+  /** Blur radius in pixels */
+  radius?: number;
+}
+
+export class BlurPass implements PostProcessPass {
+  enabled: boolean = true;
+  private options: Required<BlurPassOptions>;
+  private program: WebGLProgram | null = null;
+  private temp: RenderTarget | null = null;
+
+  constructor(options: BlurPassOptions = {}) {
+    this.options = {
+      radius: options.radius ?? 4,
+    };
+  }
+
+  init(gl: WebGLRenderingContext): void {
+    this.program = createProgram(gl, basicVertexShader, gaussianBlurShader);
+    this.temp = createRenderTarget(gl, 1, 1);
+  }
+
+  render(
+    gl: WebGLRenderingContext,
+    input: WebGLTexture,
+    output: RenderTarget | null,
+    context: PassContext
+  ): void {
+    if (!this.program || !this.temp) return;
+
+    resizeRenderTarget(gl, this.temp, context.width, context.height);
+
+    const radius = this.options.radius;
+    drawFullscreen(gl, this.program, input, this.temp, context, program => {
+      gl.uniform2f(gl.getUniformLocation(program, 'u_direction'), 1, 0);
+      gl.uniform1f(gl.getUniformLocation(program, 'u_radius'), radius);
+    });
+    drawFullscreen(gl, this.program, this.temp.texture, output, context, program => {
+      gl.uniform2f(gl.getUniformLocation(program, 'u_direction'), 0, 1);
+      gl.uniform1f(gl.getUniformLocation(program, 'u_radius'), radius);
+    });
+  }
+
+  resize(width: number, height: number): void {
+    // The intermediate target follows the frame size at render time
+  }
+
+  destroy(gl: WebGLRenderingContext): void {
+    if (this.program) {
+      gl.deleteProgram(this.program);
+      this.program = null;
+    }
+    if (this.temp) {
+      deleteRenderTarget(gl, this.temp);
+      this.temp = null;
+    }
+  }
+
+  setOptions(options: BlurPassOptions): void {
+    Object.assign(this.options, options);
+  }
+}
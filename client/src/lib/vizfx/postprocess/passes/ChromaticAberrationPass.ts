@@ -0,0 +1,56 @@
+/**
+ * Chromatic Aberration Pass - Splits colour channels towards the edges
+ */
+
+import { ShaderPass } from '../Pass';
+
+export interface ChromaticAberrationPassOptions {
+  /** Maximum channel offset in pixels */
+  offset?: number;
+  /** Scale the offset with distance from the centre */
+  radial?: boolean;
+}
+
+export class ChromaticAberrationPass extends ShaderPass {
+  private options: Required<ChromaticAberrationPassOptions>;
+
+  protected readonly fragmentShader = `
+    precision mediump float;
+
+    uniform sampler2D u_texture;
+    uniform vec2 u_resolution;
+    uniform float u_offset;
+    uniform float u_radial;
+
+    varying vec2 v_texCoord;
+
+    void main() {
+      vec2 fromCenter = v_texCoord - vec2(0.5);
+      vec2 direction = mix(vec2(1.0, 0.0), fromCenter * 2.0, u_radial);
+      vec2 shift = direction * u_offset / u_resolution;
+
+      vec4 color = texture2D(u_texture, v_texCoord);
+      float r = texture2D(u_texture, v_texCoord + shift).r;
+      float b = texture2D(u_texture, v_texCoord - shift).b;
+
+      gl_FragColor = vec4(r, color.g, b, color.a);
+    }
+  `;
+
+  constructor(options: ChromaticAberrationPassOptions = {}) {
+    super();
+    this.options = {
+      offset: options.offset ?? 2,
+      radial: options.radial ?? true,
+    };
+  }
+
+  protected setUniforms(gl: WebGLRenderingContext, program: WebGLProgram): void {
+    gl.uniform1f(gl.getUniformLocation(program, 'u_offset'), this.options.offset);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_radial'), this.options.radial ? 1 : 0);
+  }
+
+  setOptions(options: ChromaticAberrationPassOptions): void {
+    Object.assign(this.options, options);
+  }
+}
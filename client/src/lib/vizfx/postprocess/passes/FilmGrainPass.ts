@@ -0,0 +1,53 @@
+/**
+ * Film Grain Pass - Animated luminance noise
+ */
+
+import { ShaderPass } from '../Pass';
+
+export interface FilmGrainPassOptions {
+  intensity?: number;
+  animated?: boolean;
+}
+
+export class FilmGrainPass extends ShaderPass {
+  private options: Required<FilmGrainPassOptions>;
+
+  protected readonly fragmentShader = `
+    precision mediump float;
+
+    uniform sampler2D u_texture;
+    uniform float u_time;
+    uniform float u_intensity;
+    uniform float u_animated;
+
+    varying vec2 v_texCoord;
+
+    float noise(vec2 p) {
+      return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+
+    void main() {
+      vec4 color = texture2D(u_texture, v_texCoord);
+      float seed = fract(u_time * u_animated);
+      float grain = noise(v_texCoord * 1000.0 + seed * 100.0) - 0.5;
+      gl_FragColor = vec4(color.rgb + grain * u_intensity, color.a);
+    }
+  `;
+
+  constructor(options: FilmGrainPassOptions = {}) {
+    super();
+    this.options = {
+      intensity: options.intensity ?? 0.08,
+      animated: options.animated ?? true,
+    };
+  }
+
+  protected setUniforms(gl: WebGLRenderingContext, program: WebGLProgram): void {
+    gl.uniform1f(gl.getUniformLocation(program, 'u_intensity'), this.options.intensity);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_animated'), this.options.animated ? 1 : 0);
+  }
+
+  setOptions(options: FilmGrainPassOptions): void {
+    Object.assign(this.options, options);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Vignette Pass - Darkens the edges of the frame
+ */
+
+import { ShaderPass } from '../Pass';
+
+export interface VignettePassOptions {
+  darkness?: number;
+  offset?: number;
+}
+
+export class VignettePass extends ShaderPass {
+  private options: Required<VignettePassOptions>;
+
+  protected readonly fragmentShader = `
+    precision mediump float;
+
+    uniform sampler2D u_texture;
+    uniform float u_darkness;
+    uniform float u_offset;
+
+    varying vec2 v_texCoord;
+
+    void main() {
+      vec4 color = texture2D(u_texture, v_texCoord);
+      vec2 uv = (v_texCoord - vec2(0.5)) * u_offset;
+      float vignette = clamp(1.0 - dot(uv, uv) * u_darkness * 2.0, 0.0, 1.0);
+      gl_FragColor = vec4(color.rgb * vignette, color.a);
+    }
+  `;
+
+  constructor(options: VignettePassOptions = {}) {
+    super();
+    this.options = {
+      darkness: options.darkness ?? 0.6,
+      offset: options.offset ?? 1.0,
+    };
+  }
+
+  protected setUniforms(gl: WebGLRenderingContext, program: WebGLProgram): void {
+    gl.uniform1f(gl.getUniformLocation(program, 'u_darkness'), this.options.darkness);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_offset'), this.options.offset);
+  }
+
+  setOptions(options: VignettePassOptions): void {
+    Object.assign(this.options, options);
+  }
+}
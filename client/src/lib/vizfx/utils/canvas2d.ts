@@ -0,0 +1,59 @@
+/**
+ * Canvas 2D helpers for the fallback renderer
+ */
+
+import type { BlendMode } from '../core/Layer';
+import { hexToRgb } from './math';
+
+export type Canvas2DContext =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Composite operations matching the WebGL blend modes
+ */
+export const COMPOSITE_OPERATIONS: Record<BlendMode, GlobalCompositeOperation> = {
+  normal: 'source-over',
+  additive: 'lighter',
+  multiply: 'multiply',
+  screen: 'screen',
+};
+
+const SPRITE_SIZE = 64;
+const sprites = new Map<string, CanvasImageSource>();
+
+/**
+ * A round dot in `color` that fades linearly from the centre to the edge,
+ * like the WebGL point shaders. Cached per colour.
+ */
+export function getSoftDot(color: string): CanvasImageSource {
+  const cached = sprites.get(color);
+  if (cached) return cached;
+
+  const canvas =
+    typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(SPRITE_SIZE, SPRITE_SIZE)
+      : Object.assign(document.createElement('canvas'), {
+          width: SPRITE_SIZE,
+          height: SPRITE_SIZE,
+        });
+  const ctx = canvas.getContext('2d') as Canvas2DContext;
+
+  const half = SPRITE_SIZE / 2;
+  const gradient = ctx.createRadialGradient(half, half, 0, half, half, half);
+  gradient.addColorStop(0, toRgba(color, 1));
+  gradient.addColorStop(1, toRgba(color, 0));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, SPRITE_SIZE, SPRITE_SIZE);
+
+  sprites.set(color, canvas);
+  return canvas;
+}
+
+/**
+ * A hex colour as a CSS rgba() string
+ */
+export function toRgba(hex: string, alpha: number): string {
+  const { r, g, b } = hexToRgb(hex);
+  return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${alpha})`;
+}
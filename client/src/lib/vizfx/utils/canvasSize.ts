@@ -0,0 +1,24 @@
+/**
+ * Canvas sizing helpers
+ */
+
+/**
+ * Pin the CSS size of a canvas whose box comes from its width/height
+ * attributes, i.e. one no stylesheet sizes. Such a canvas grows with its
+ * drawing buffer, so following its box at a DPR above 1 would enlarge it
+ * on every resize. Canvases sized by CSS are left alone.
+ */
+export function pinIntrinsicSize(canvas: HTMLCanvasElement): void {
+  const { width, height, clientWidth, clientHeight } = canvas;
+
+  // Only an unsized box follows a change of the drawing buffer
+  canvas.width = width + 1;
+  canvas.height = height + 1;
+  const followsWidth = canvas.clientWidth !== clientWidth;
+  const followsHeight = canvas.clientHeight !== clientHeight;
+  canvas.width = width;
+  canvas.height = height;
+
+  if (followsWidth) canvas.style.width = `${clientWidth}px`;
+  if (followsHeight) canvas.style.height = `${clientHeight}px`;
+}
@@ -0,0 +1,37 @@
+/**
+ * Minimal typed event emitter
+ */
+
+export type Listener<T> = (payload: T) => void;
+
+export class EventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    // Copy so listeners can unsubscribe while being called
+    // Only on() adds listeners, keyed by the event they take
+    for (const listener of Array.from(set) as Listener<Events[K]>[]) {
+      listener(payload);
+    }
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Framebuffer utilities for offscreen rendering
+ */
+
+import { isWebGL2 } from '../core/capabilities';
+
+export interface RenderTarget {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+}
+
+/**
+ * Create an RGBA texture with a framebuffer attached
+ */
+export function createRenderTarget(
+  gl: WebGLRenderingContext,
+  width: number,
+  height: number
+): RenderTarget | null {
+  const framebuffer = gl.createFramebuffer();
+  const texture = gl.createTexture();
+  if (!framebuffer || !texture) return null;
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  // Clamp + linear keeps non-power-of-two sizes legal on WebGL1
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+  const target: RenderTarget = { framebuffer, texture, width: 0, height: 0 };
+  resizeRenderTarget(gl, target, width, height);
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(
+    gl.FRAMEBUFFER,
+    gl.COLOR_ATTACHMENT0,
+    gl.TEXTURE_2D,
+    texture,
+    0
+  );
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+
+  return target;
+}
+
+/**
+ * Reallocate the texture storage of a render target
+ */
+export function resizeRenderTarget(
+  gl: WebGLRenderingContext,
+  target: RenderTarget,
+  width: number,
+  height: number
+): void {
+  const w = Math.max(1, Math.floor(width));
+  const h = Math.max(1, Math.floor(height));
+  if (target.width === w && target.height === h) return;
+
+  target.width = w;
+  target.height = h;
+
+  gl.bindTexture(gl.TEXTURE_2D, target.texture);
+  gl.texImage2D(
+    gl.TEXTURE_2D,
+    0,
+    gl.RGBA,
+    w,
+    h,
+    0,
+    gl.RGBA,
+    gl.UNSIGNED_BYTE,
+    null
+  );
+  gl.bindTexture(gl.TEXTURE_2D, null);
+}
+
+/**
+ * Bind a render target (or the canvas when null) and set the viewport
+ */
+export function bindRenderTarget(
+  gl: WebGLRenderingContext,
+  target: RenderTarget | null
+): void {
+  if (target) {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+    gl.viewport(0, 0, target.width, target.height);
+  } else {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+  }
+}
+
+/**
+ * Fill a float RGBA texture (RGBA32F on WebGL2). `data` holds four floats
+ * per texel, or null for zeros.
+ */
+export function writeFloatTexture(
+  gl: WebGLRenderingContext,
+  texture: WebGLTexture,
+  width: number,
+  height: number,
+  data: Float32Array | null
+): void {
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  // Float textures can't be filtered without OES_texture_float_linear
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  const internalFormat = isWebGL2(gl) ? gl.RGBA32F : gl.RGBA;
+  gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, width, height, 0, gl.RGBA, gl.FLOAT, data);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+}
+
+/**
+ * Create a float RGBA texture, e.g. for simulation data. Needs float
+ * texture support (see RendererCapabilities.floatTextures).
+ */
+export function createFloatTexture(
+  gl: WebGLRenderingContext,
+  width: number,
+  height: number,
+  data: Float32Array | null = null
+): WebGLTexture | null {
+  const texture = gl.createTexture();
+  if (!texture) return null;
+
+  writeFloatTexture(gl, texture, width, height, data);
+  return texture;
+}
+
+/**
+ * Create a render target around a float RGBA texture, or null when the
+ * context can't render to one (see RendererCapabilities.floatRenderTargets)
+ */
+export function createFloatRenderTarget(
+  gl: WebGLRenderingContext,
+  width: number,
+  height: number
+): RenderTarget | null {
+  const framebuffer = gl.createFramebuffer();
+  const texture = createFloatTexture(gl, width, height);
+  if (!framebuffer || !texture) return null;
+
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(
+    gl.FRAMEBUFFER,
+    gl.COLOR_ATTACHMENT0,
+    gl.TEXTURE_2D,
+    texture,
+    0
+  );
+  const complete =
+    gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+  gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+  if (!complete) {
+    gl.deleteFramebuffer(framebuffer);
+    gl.deleteTexture(texture);
+    return null;
+  }
+
+  return { framebuffer, texture, width, height };
+}
+
+/**
+ * Delete a render target's GPU resources
+ */
+export function deleteRenderTarget(
+  gl: WebGLRenderingContext,
+  target: RenderTarget
+): void {
+  gl.deleteFramebuffer(target.framebuffer);
+  gl.deleteTexture(target.texture);
+}
@@ -3,27 +3,52 @@
  */
 
 import { Vec2 } from './math';
+import { EventEmitter, Listener } from './events';
 
 export interface PointerState {
   position: Vec2;
   normalized: Vec2; // -1 to 1 coordinates
   velocity: Vec2;
   isDown: boolean;
+  /** The pointer is over the canvas (a mouse hovering, or a touch) */
+  isOver: boolean;
+}
+
+/**
+ * Plain-object pointer state that survives postMessage
+ */
+export interface SerializedPointerState {
+  position: { x: number; y: number };
+  normalized: { x: number; y: number };
+  velocity: { x: number; y: number };
+  isDown: boolean;
+  isOver: boolean;
+}
+
+export interface InteractionEventMap {
+  /** Fired whenever the pointer state changes */
+  change: PointerState;
 }
 
 export class InteractionManager {
-  private canvas: HTMLCanvasElement;
+  private canvas: HTMLCanvasElement | null;
   private pointer: PointerState;
   private lastPosition: Vec2;
   private lastTime: number;
+  private events = new EventEmitter<InteractionEventMap>();
 
-  constructor(canvas: HTMLCanvasElement) {
+  /**
+   * Without a canvas no DOM listeners are attached; state is fed in through
+   * setPointer() instead (e.g. inside a worker).
+   */
+  constructor(canvas: HTMLCanvasElement | null = null) {
     this.canvas = canvas;
     this.pointer = {
       position: new Vec2(),
       normalized: new Vec2(),
       velocity: new Vec2(),
       isDown: false,
+      isOver: false,
     };
     this.lastPosition = new Vec2();
     this.lastTime = Date.now();
@@ -32,33 +57,43 @@ export class InteractionManager {
   }
 
   private setupListeners(): void {
+    if (!this.canvas) return;
+
     // Mouse events
-    this.canvas.addEventListener('mousemove', (e) => this.handleMove(e));
-    this.canvas.addEventListener('mousedown', () => this.handleDown());
-    this.canvas.addEventListener('mouseup', () => this.handleUp());
-    this.canvas.addEventListener('mouseleave', () => this.handleUp());
+    this.canvas.addEventListener('mousemove', this.handleMouseMove);
+    this.canvas.addEventListener('mousedown', this.handleDown);
+    this.canvas.addEventListener('mouseup', this.handleUp);
+    this.canvas.addEventListener('mouseleave', this.handleLeave);
 
     // Touch events
-    this.canvas.addEventListener(
-      'touchmove',
-      (e) => {
-        e.preventDefault();
-        if (e.touches.length > 0) {
-          this.handleMove(e.touches[0]);
-        }
-      },
-      { passive: false }
-    );
-    this.canvas.addEventListener('touchstart', (e) => {
-      if (e.touches.length > 0) {
-        this.handleMove(e.touches[0]);
-        this.handleDown();
-      }
+    this.canvas.addEventListener('touchmove', this.handleTouchMove, {
+      passive: false,
     });
-    this.canvas.addEventListener('touchend', () => this.handleUp());
+    this.canvas.addEventListener('touchstart', this.handleTouchStart);
+    this.canvas.addEventListener('touchend', this.handleLeave);
   }
 
+  private handleMouseMove = (e: MouseEvent): void => {
+    this.handleMove(e);
+  };
+
+  private handleTouchMove = (e: TouchEvent): void => {
+    e.preventDefault();
+    if (e.touches.length > 0) {
+      this.handleMove(e.touches[0]);
+    }
+  };
+
+  private handleTouchStart = (e: TouchEvent): void => {
+    if (e.touches.length > 0) {
+      this.handleMove(e.touches[0]);
+      this.handleDown();
+    }
+  };
+
   private handleMove(e: MouseEvent | Touch): void {
+    if (!this.canvas) return;
+
     const rect = this.canvas.getBoundingClientRect();
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
@@ -81,23 +116,84 @@ export class InteractionManager {
     const dx = this.pointer.position.x - this.lastPosition.x;
     const dy = this.pointer.position.y - this.lastPosition.y;
     this.pointer.velocity.set(dx / dt, dy / dt);
+    this.pointer.isOver = true;
+
+    this.events.emit('change', this.pointer);
   }
 
-  private handleDown(): void {
+  private handleDown = (): void => {
     this.pointer.isDown = true;
-  }
+    this.events.emit('change', this.pointer);
+  };
 
-  private handleUp(): void {
+  private handleUp = (): void => {
     this.pointer.isDown = false;
     this.pointer.velocity.set(0, 0);
-  }
+    this.events.emit('change', this.pointer);
+  };
+
+  private handleLeave = (): void => {
+    this.pointer.isOver = false;
+    this.handleUp();
+  };
 
   getPointer(): PointerState {
     return this.pointer;
   }
 
+  /**
+   * Apply pointer state captured elsewhere (e.g. forwarded from the main thread)
+   */
+  setPointer(state: SerializedPointerState): void {
+    this.pointer.position.set(state.position.x, state.position.y);
+    this.pointer.normalized.set(state.normalized.x, state.normalized.y);
+    this.pointer.velocity.set(state.velocity.x, state.velocity.y);
+    this.pointer.isDown = state.isDown;
+    this.pointer.isOver = state.isOver;
+    this.events.emit('change', this.pointer);
+  }
+
+  /**
+   * Copy the pointer state into a plain object
+   */
+  serialize(): SerializedPointerState {
+    const { position, normalized, velocity, isDown, isOver } = this.pointer;
+    return {
+      position: { x: position.x, y: position.y },
+      normalized: { x: normalized.x, y: normalized.y },
+      velocity: { x: velocity.x, y: velocity.y },
+      isDown,
+      isOver,
+    };
+  }
+
+  on<K extends keyof InteractionEventMap>(
+    event: K,
+    listener: Listener<InteractionEventMap[K]>
+  ): void {
+    this.events.on(event, listener);
+  }
+
+  off<K extends keyof InteractionEventMap>(
+    event: K,
+    listener: Listener<InteractionEventMap[K]>
+  ): void {
+    this.events.off(event, listener);
+  }
+
   destroy(): void {
+    this.events.clear();
+
+    if (!this.canvas) return;
+
     // Remove event listeners
-    // (In a production library, we'd store bound functions to properly remove them)
+    this.canvas.removeEventListener('mousemove', this.handleMouseMove);
+    this.canvas.removeEventListener('mousedown', this.handleDown);
+    this.canvas.removeEventListener('mouseup', this.handleUp);
+    this.canvas.removeEventListener('mouseleave', this.handleLeave);
+    this.canvas.removeEventListener('touchmove', this.handleTouchMove);
+    this.canvas.removeEventListener('touchstart', this.handleTouchStart);
+    this.canvas.removeEventListener('touchend', this.handleLeave);
+    this.canvas = null;
   }
 }
@@ -37,6 +37,20 @@ export function smoothstep(edge0: number, edge1: number, x: number): number {
   return t * t * (3 - 2 * t);
 }
 
+/**
+ * Ease in cubic
+ */
+export function easeInCubic(t: number): number {
+  return t * t * t;
+}
+
+/**
+ * Ease out cubic
+ */
+export function easeOutCubic(t: number): number {
+  return 1 - Math.pow(1 - t, 3);
+}
+
 /**
  * Ease in-out cubic
  */
@@ -56,18 +70,40 @@ export function easeOutElastic(t: number): number {
     : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * c4) + 1;
 }
 
+let randomSource: () => number = Math.random;
+
+/**
+ * Make random() and randomInt() repeatable from a seed (mulberry32).
+ * Pass null to go back to Math.random.
+ */
+export function seedRandom(seed: number | null): void {
+  if (seed === null) {
+    randomSource = Math.random;
+    return;
+  }
+
+  let state = seed >>> 0;
+  randomSource = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 /**
  * Random number between min and max
  */
 export function random(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
+  return randomSource() * (max - min) + min;
 }
 
 /**
  * Random integer between min and max (inclusive)
  */
 export function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return Math.floor(randomSource() * (max - min + 1)) + min;
 }
 
 /**
@@ -137,3 +173,14 @@ export function hexToRgb(hex: string): { r: number; g: number; b: number } {
       }
     : { r: 1, g: 1, b: 1 };
 }
+
+/**
+ * Convert RGB components (0 to 1) to a hex color
+ */
+export function rgbToHex(r: number, g: number, b: number): string {
+  const toHex = (value: number) =>
+    Math.round(clamp(value, 0, 1) * 255)
+      .toString(16)
+      .padStart(2, '0');
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+}
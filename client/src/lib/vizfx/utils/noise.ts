@@ -0,0 +1,96 @@
+/**
+ * Noise - Smooth value noise and its curl, for turbulence
+ */
+
+/**
+ * Pseudo-random value from 0 to 1 per lattice point, the same sine hash the
+ * shaders use
+ */
+function hash(x: number, y: number, z: number): number {
+  const h = Math.sin(x * 12.9898 + y * 78.233 + z * 37.719) * 43758.5453;
+  return h - Math.floor(h);
+}
+
+function fade(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Smooth 3D value noise from 0 to 1. Features are about one unit across.
+ */
+export function valueNoise(x: number, y: number, z: number): number {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const iz = Math.floor(z);
+  const fx = fade(x - ix);
+  const fy = fade(y - iy);
+  const fz = fade(z - iz);
+
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+  const plane = (z: number) =>
+    lerp(
+      lerp(hash(ix, iy, z), hash(ix + 1, iy, z), fx),
+      lerp(hash(ix, iy + 1, z), hash(ix + 1, iy + 1, z), fx),
+      fy
+    );
+
+  return lerp(plane(iz), plane(iz + 1), fz);
+}
+
+/**
+ * Step for the finite differences in curlNoise()
+ */
+const EPSILON = 0.01;
+
+/**
+ * Curl of the noise field at (x, y), slice z. The result swirls without
+ * sources or sinks, so particles following it don't bunch up. Its length
+ * is roughly 0 to 2.
+ */
+export function curlNoise(
+  x: number,
+  y: number,
+  z: number,
+  out: { x: number; y: number }
+): { x: number; y: number } {
+  const dx = valueNoise(x + EPSILON, y, z) - valueNoise(x - EPSILON, y, z);
+  const dy = valueNoise(x, y + EPSILON, z) - valueNoise(x, y - EPSILON, z);
+  out.x = dy / (2 * EPSILON);
+  out.y = -dx / (2 * EPSILON);
+  return out;
+}
+
+/**
+ * GLSL versions of valueNoise() and curlNoise() for shaders. Needs highp
+ * floats for pixel-sized inputs.
+ */
+export const NOISE_SHADER = `
+  float noiseHash(vec3 p) {
+    return fract(sin(dot(p, vec3(12.9898, 78.233, 37.719))) * 43758.5453);
+  }
+
+  float valueNoise(vec3 p) {
+    vec3 i = floor(p);
+    vec3 f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+
+    float lower = mix(
+      mix(noiseHash(i), noiseHash(i + vec3(1.0, 0.0, 0.0)), f.x),
+      mix(noiseHash(i + vec3(0.0, 1.0, 0.0)), noiseHash(i + vec3(1.0, 1.0, 0.0)), f.x),
+      f.y
+    );
+    float upper = mix(
+      mix(noiseHash(i + vec3(0.0, 0.0, 1.0)), noiseHash(i + vec3(1.0, 0.0, 1.0)), f.x),
+      mix(noiseHash(i + vec3(0.0, 1.0, 1.0)), noiseHash(i + vec3(1.0, 1.0, 1.0)), f.x),
+      f.y
+    );
+    return mix(lower, upper, f.z);
+  }
+
+  vec2 curlNoise(vec2 p, float z) {
+    const float e = ${EPSILON.toFixed(2)};
+    float dx = valueNoise(vec3(p.x + e, p.y, z)) - valueNoise(vec3(p.x - e, p.y, z));
+    float dy = valueNoise(vec3(p.x, p.y + e, z)) - valueNoise(vec3(p.x, p.y - e, z));
+    return vec2(dy, -dx) / (2.0 * e);
+  }
+`;
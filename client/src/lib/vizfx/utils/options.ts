@@ -0,0 +1,25 @@
+/**
+ * Option helpers shared by effects
+ */
+
+/**
+ * Copy the defined values of `changes` onto `target`, so passing
+ * `{ speed: undefined }` leaves the current speed alone. Returns the keys
+ * whose value changed.
+ */
+export function assignOptions<T extends object>(
+  target: T,
+  changes: Partial<T>
+): Set<keyof T> {
+  const changed = new Set<keyof T>();
+
+  for (const key of Object.keys(changes) as (keyof T)[]) {
+    const value = changes[key];
+    if (value !== undefined && value !== target[key]) {
+      target[key] = value as T[keyof T];
+      changed.add(key);
+    }
+  }
+
+  return changed;
+}
@@ -0,0 +1,207 @@
+/**
+ * SVG path helpers - Flatten path data into polylines for sampling points
+ * along it, without the DOM (so it also works in workers)
+ */
+
+import { Vec2 } from './math';
+
+/**
+ * Line segments per curve when flattening
+ */
+const CURVE_SEGMENTS = 16;
+
+const COMMAND_PATTERN = /([MLHVCSQTZmlhvcsqtz])([^MLHVCSQTZmlhvcsqtzAa]*)/g;
+
+/**
+ * Flatten SVG path data (`M`, `L`, `H`, `V`, `C`, `S`, `Q`, `T`, `Z`, absolute
+ * or relative) into one polyline per subpath. Arcs (`A`) aren't supported.
+ */
+export function flattenPath(d: string): Vec2[][] {
+  if (/[Aa]/.test(d)) {
+    throw new Error('SVG path arcs (A) are not supported; use curves instead');
+  }
+
+  const polylines: Vec2[][] = [];
+  let current: Vec2[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Control point of the previous curve, for S and T
+  let controlX = 0;
+  let controlY = 0;
+  let previous = '';
+
+  const curve = (points: (t: number) => [number, number]): void => {
+    for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+      const [px, py] = points(i / CURVE_SEGMENTS);
+      current.push(new Vec2(px, py));
+    }
+  };
+
+  for (const [, command, args] of Array.from(d.matchAll(COMMAND_PATTERN))) {
+    const numbers = (args.match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+    const relative = command === command.toLowerCase();
+    const type = command.toUpperCase();
+    let i = 0;
+
+    // Commands repeat while arguments remain; Z takes none
+    do {
+      const ox = relative ? x : 0;
+      const oy = relative ? y : 0;
+
+      switch (type) {
+        case 'M':
+          if (current.length > 1) polylines.push(current);
+          x = ox + numbers[i++];
+          y = oy + numbers[i++];
+          startX = x;
+          startY = y;
+          current = [new Vec2(x, y)];
+          break;
+        case 'L':
+          x = ox + numbers[i++];
+          y = oy + numbers[i++];
+          current.push(new Vec2(x, y));
+          break;
+        case 'H':
+          x = ox + numbers[i++];
+          current.push(new Vec2(x, y));
+          break;
+        case 'V':
+          y = oy + numbers[i++];
+          current.push(new Vec2(x, y));
+          break;
+        case 'C':
+        case 'S': {
+          let x1: number;
+          let y1: number;
+          if (type === 'C') {
+            x1 = ox + numbers[i++];
+            y1 = oy + numbers[i++];
+          } else {
+            // Reflect the previous control point
+            const smooth = previous === 'C' || previous === 'S';
+            x1 = smooth ? 2 * x - controlX : x;
+            y1 = smooth ? 2 * y - controlY : y;
+          }
+          const x2 = ox + numbers[i++];
+          const y2 = oy + numbers[i++];
+          const x3 = ox + numbers[i++];
+          const y3 = oy + numbers[i++];
+          const x0 = x;
+          const y0 = y;
+          curve(t => {
+            const u = 1 - t;
+            return [
+              u * u * u * x0 + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * x3,
+              u * u * u * y0 + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * y3,
+            ];
+          });
+          controlX = x2;
+          controlY = y2;
+          x = x3;
+          y = y3;
+          break;
+        }
+        case 'Q':
+        case 'T': {
+          let x1: number;
+          let y1: number;
+          if (type === 'Q') {
+            x1 = ox + numbers[i++];
+            y1 = oy + numbers[i++];
+          } else {
+            const smooth = previous === 'Q' || previous === 'T';
+            x1 = smooth ? 2 * x - controlX : x;
+            y1 = smooth ? 2 * y - controlY : y;
+          }
+          const x2 = ox + numbers[i++];
+          const y2 = oy + numbers[i++];
+          const x0 = x;
+          const y0 = y;
+          curve(t => {
+            const u = 1 - t;
+            return [
+              u * u * x0 + 2 * u * t * x1 + t * t * x2,
+              u * u * y0 + 2 * u * t * y1 + t * t * y2,
+            ];
+          });
+          controlX = x1;
+          controlY = y1;
+          x = x2;
+          y = y2;
+          break;
+        }
+        case 'Z':
+          x = startX;
+          y = startY;
+          current.push(new Vec2(x, y));
+          break;
+      }
+
+      // A moveto followed by more pairs continues as lineto
+      previous = type === 'M' ? 'L' : type;
+    } while (type !== 'Z' && i < numbers.length);
+
+    // Missing arguments read as undefined and turn coordinates into NaN
+    if (Number.isNaN(x) || Number.isNaN(y)) {
+      throw new Error(`Invalid SVG path data near "${command}${args.trim()}"`);
+    }
+  }
+
+  if (current.length > 1) polylines.push(current);
+  if (polylines.length === 0) {
+    throw new Error('SVG path has no drawable segments');
+  }
+
+  return polylines;
+}
+
+/**
+ * Picks uniformly distributed points along polylines
+ */
+export class PolylineSampler {
+  private segments: { from: Vec2; to: Vec2; end: number }[] = [];
+  private length: number = 0;
+  readonly min = new Vec2(Infinity, Infinity);
+  readonly max = new Vec2(-Infinity, -Infinity);
+
+  constructor(polylines: Vec2[][]) {
+    for (const line of polylines) {
+      for (let i = 0; i < line.length; i++) {
+        const point = line[i];
+        this.min.set(Math.min(this.min.x, point.x), Math.min(this.min.y, point.y));
+        this.max.set(Math.max(this.max.x, point.x), Math.max(this.max.y, point.y));
+
+        if (i === 0) continue;
+        this.length += line[i - 1].distance(point);
+        this.segments.push({ from: line[i - 1], to: point, end: this.length });
+      }
+    }
+  }
+
+  /**
+   * Point at a share (0-1) of the total length
+   */
+  at(t: number): Vec2 {
+    const target = t * this.length;
+
+    // Binary search for the segment containing the target length
+    let low = 0;
+    let high = this.segments.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.segments[middle].end < target) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    const { from, to, end } = this.segments[low];
+    const segmentLength = from.distance(to);
+    const along = segmentLength > 0 ? 1 - (end - target) / segmentLength : 0;
+    return new Vec2(from.x + (to.x - from.x) * along, from.y + (to.y - from.y) * along);
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Texture utilities - Load images for sprites and upload them with
+ * premultiplied alpha
+ */
+
+/**
+ * An image, or a URL / data URL to load one from
+ */
+export type TextureSource =
+  | string
+  | HTMLImageElement
+  | ImageBitmap
+  | HTMLCanvasElement
+  | OffscreenCanvas;
+
+/**
+ * A decoded image, usable with both WebGL and Canvas 2D
+ */
+export type LoadedImage = Exclude<TextureSource, string>;
+
+/**
+ * Whether a value is an image object rather than plain data. Images can't
+ * be saved in scenes.
+ */
+export function isImageObject(value: unknown): value is LoadedImage {
+  return (
+    (typeof HTMLImageElement !== 'undefined' && value instanceof HTMLImageElement) ||
+    (typeof HTMLCanvasElement !== 'undefined' && value instanceof HTMLCanvasElement) ||
+    (typeof ImageBitmap !== 'undefined' && value instanceof ImageBitmap) ||
+    (typeof OffscreenCanvas !== 'undefined' && value instanceof OffscreenCanvas)
+  );
+}
+
+/**
+ * Decode a texture source. URLs go through fetch() and createImageBitmap()
+ * where available, so loading also works in workers; cross-origin images
+ * need CORS headers either way.
+ */
+export async function loadImage(source: TextureSource): Promise<LoadedImage> {
+  if (typeof source === 'string') {
+    if (typeof createImageBitmap !== 'undefined' && typeof fetch !== 'undefined') {
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`Failed to load texture ${source}: ${response.status}`);
+      }
+      return createImageBitmap(await response.blob(), { premultiplyAlpha: 'premultiply' });
+    }
+
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.src = source;
+    await image.decode();
+    return image;
+  }
+
+  if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+    // Resolves right away for images that have already loaded
+    await source.decode();
+  }
+  return source;
+}
+
+/**
+ * A texture whose image loads in the background. Until it has arrived,
+ * bind() returns false and effects draw their untextured look.
+ */
+export class SpriteTexture {
+  private image: LoadedImage | null = null;
+  private texture: WebGLTexture | null = null;
+  /** The image changed since it was uploaded */
+  private dirty: boolean = false;
+  /** Ignores loads that finish after the source changed again */
+  private loadId: number = 0;
+
+  constructor(source: TextureSource | null = null) {
+    this.setSource(source);
+  }
+
+  /**
+   * Switch to another image. The current one stays in use until the new
+   * one has loaded.
+   */
+  setSource(source: TextureSource | null): void {
+    const id = ++this.loadId;
+    if (!source) {
+      this.image = null;
+      return;
+    }
+
+    loadImage(source).then(
+      image => {
+        if (id !== this.loadId) return;
+        this.image = image;
+        this.dirty = true;
+      },
+      error => console.error('VizFX texture error:', error)
+    );
+  }
+
+  /**
+   * The loaded image, e.g. for the Canvas 2D fallback
+   */
+  getImage(): LoadedImage | null {
+    return this.image;
+  }
+
+  /**
+   * Bind the texture to a texture unit, uploading the image first if it
+   * changed. Returns false while nothing has loaded.
+   */
+  bind(gl: WebGLRenderingContext, unit: number): boolean {
+    if (!this.image) return false;
+
+    if (!this.texture) {
+      this.texture = gl.createTexture();
+      this.dirty = true;
+    }
+
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+
+    if (this.dirty) {
+      // Clamp + linear keeps non-power-of-two sizes legal on WebGL1
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+      // Filtering premultiplied colour avoids dark fringes at transparent
+      // edges. ImageBitmaps ignore this flag; loadImage() creates them
+      // premultiplied instead.
+      gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.image);
+      gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+      this.dirty = false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Forget GPU state, e.g. after a context restore. The image is uploaded
+   * again on the next bind().
+   */
+  reset(): void {
+    this.texture = null;
+  }
+
+  destroy(gl: WebGLRenderingContext): void {
+    if (this.texture) {
+      gl.deleteTexture(this.texture);
+      this.texture = null;
+    }
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * VizFXWorker - Same API as VizFX, but rendering runs in a Web Worker on an
+ * OffscreenCanvas so the animation loop never competes with the main thread
+ */
+
+import { FallbackInfo, VizFXEventMap } from '../core/VizFX';
+import { LayerOptions } from '../core/Layer';
+import { RendererCapabilities } from '../core/capabilities';
+import { getReducedMotionQuery } from '../core/motion';
+import { VizFXStats } from '../core/Stats';
+import { StatsOverlay, StatsOverlayOptions } from '../core/StatsOverlay';
+import { InteractionManager } from '../utils/interaction';
+import { EventEmitter, Listener } from '../utils/events';
+import { pinIntrinsicSize } from '../utils/canvasSize';
+import {
+  EffectConfig,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerVizFXOptions,
+} from './protocol';
+
+export interface VizFXWorkerOptions extends WorkerVizFXOptions {
+  canvas: HTMLCanvasElement | string;
+  /**
+   * Worker running `runVizFXWorker()` (see worker/entry.ts).
+   * It is terminated by destroy().
+   */
+  worker: Worker;
+  /**
+   * Called once the worker reports that it found no WebGL and fell back to
+   * Canvas 2D
+   */
+  onFallback?: (info: FallbackInfo) => void;
+}
+
+export class VizFXWorker {
+  private canvas: HTMLCanvasElement;
+  private worker: Worker;
+  private interactionManager: InteractionManager | null;
+  private effectIds = new Map<EffectConfig, number>();
+  private nextEffectId: number = 1;
+  private capabilities: RendererCapabilities | null = null;
+  private events = new EventEmitter<VizFXEventMap>();
+  private resizeObserver: ResizeObserver | null = null;
+  private onFallback: ((info: FallbackInfo) => void) | null;
+  private reducedMotion: boolean | 'auto';
+  private reducedMotionQuery: MediaQueryList | null;
+  private stats: VizFXStats | null = null;
+  private visibilityObserver: IntersectionObserver | null = null;
+  /** Whether the canvas is out of view; the page being hidden also counts */
+  private offscreen: boolean = false;
+  private suspended: boolean = false;
+
+  /**
+   * Whether this browser can move a canvas into a worker
+   */
+  static isSupported(): boolean {
+    return (
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof HTMLCanvasElement !== 'undefined' &&
+      'transferControlToOffscreen' in HTMLCanvasElement.prototype
+    );
+  }
+
+  constructor(options: VizFXWorkerOptions) {
+    const { canvas, worker, onFallback, ...vizOptions } = options;
+    this.onFallback = onFallback ?? null;
+
+    if (typeof canvas === 'string') {
+      const element = document.querySelector(canvas);
+      if (!(element instanceof HTMLCanvasElement)) {
+        throw new Error(`Canvas element not found: ${canvas}`);
+      }
+      this.canvas = element;
+    } else {
+      this.canvas = canvas;
+    }
+
+    if (!VizFXWorker.isSupported()) {
+      throw new Error('OffscreenCanvas not supported');
+    }
+
+    if (options.label) {
+      this.canvas.setAttribute('role', 'img');
+      this.canvas.setAttribute('aria-label', options.label);
+    }
+
+    this.worker = worker;
+    this.worker.addEventListener('message', this.handleMessage);
+
+    // Workers can't read media queries, so resolve the preference here
+    this.reducedMotion = vizOptions.reducedMotion ?? 'auto';
+    this.reducedMotionQuery = getReducedMotionQuery();
+    this.reducedMotionQuery?.addEventListener('change', this.forwardReducedMotion);
+
+    // Placeholder sizes follow the worker's drawing buffer too
+    const fixedSize = options.width !== undefined || options.height !== undefined;
+    if (!fixedSize) {
+      pinIntrinsicSize(this.canvas);
+    }
+
+    // The worker owns the drawing buffer from here on
+    const offscreen = this.canvas.transferControlToOffscreen();
+    this.post(
+      {
+        type: 'init',
+        canvas: offscreen,
+        options: {
+          ...vizOptions,
+          reducedMotion: this.resolveReducedMotion(),
+          dpr: vizOptions.dpr ?? window.devicePixelRatio ?? 1,
+          width: options.width ?? this.canvas.clientWidth,
+          height: options.height ?? this.canvas.clientHeight,
+        },
+      },
+      [offscreen]
+    );
+
+    // Pointer events still arrive on the element; forward them
+    this.interactionManager = new InteractionManager(this.canvas);
+    this.interactionManager.on('change', this.forwardPointer);
+
+    // Follow the element's CSS box unless a fixed size was given
+    if (fixedSize) {
+      this.resize(options.width, options.height);
+    } else if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(entries => {
+        const { width, height } = entries[entries.length - 1].contentRect;
+        this.post({ type: 'resize', width, height });
+      });
+      this.resizeObserver.observe(this.canvas);
+    } else {
+      window.addEventListener('resize', this.handleWindowResize);
+    }
+
+    // The worker has no element to watch, so visibility is observed here
+    if (vizOptions.pauseWhenHidden ?? true) {
+      this.observeVisibility();
+    }
+  }
+
+  private observeVisibility(): void {
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.visibilityObserver = new IntersectionObserver(
+        entries => {
+          this.offscreen = !entries[entries.length - 1].isIntersecting;
+          this.forwardVisibility();
+        },
+        { rootMargin: '50px' }
+      );
+      this.visibilityObserver.observe(this.canvas);
+    }
+
+    document.addEventListener('visibilitychange', this.forwardVisibility);
+    this.forwardVisibility();
+  }
+
+  private forwardVisibility = (): void => {
+    const suspended = this.offscreen || document.hidden;
+    if (suspended === this.suspended) return;
+
+    this.suspended = suspended;
+    this.post({ type: suspended ? 'suspend' : 'resume' });
+  };
+
+  private post(message: WorkerRequest, transfer: Transferable[] = []): void {
+    this.worker.postMessage(message, transfer);
+  }
+
+  private handleMessage = (event: MessageEvent<WorkerResponse>): void => {
+    const message = event.data;
+
+    switch (message.type) {
+      case 'ready':
+        this.capabilities = message.capabilities;
+        if (message.fallback) this.onFallback?.(message.fallback);
+        break;
+      case 'event':
+        this.events.emit(message.event, message.payload);
+        break;
+      case 'stats':
+        this.stats = message.stats;
+        break;
+      case 'error':
+        console.error('VizFX worker error:', message.message);
+        break;
+    }
+  };
+
+  private forwardPointer = (): void => {
+    if (!this.interactionManager) return;
+    this.post({ type: 'pointer', state: this.interactionManager.serialize() });
+  };
+
+  private handleWindowResize = (): void => {
+    this.resize();
+  };
+
+  private resolveReducedMotion(): boolean {
+    if (this.reducedMotion === 'auto') {
+      return this.reducedMotionQuery?.matches ?? false;
+    }
+    return this.reducedMotion;
+  }
+
+  private forwardReducedMotion = (): void => {
+    this.post({ type: 'setReducedMotion', value: this.resolveReducedMotion() });
+  };
+
+  /**
+   * Add an effect, described by a serializable config, to the scene
+   */
+  addEffect(config: EffectConfig, layer?: LayerOptions): VizFXWorker {
+    if (this.effectIds.has(config)) return this;
+
+    const id = this.nextEffectId++;
+    this.effectIds.set(config, id);
+    this.post({ type: 'addEffect', id, config, layer });
+
+    return this;
+  }
+
+  /**
+   * Remove an effect previously added with the same config object
+   */
+  removeEffect(config: EffectConfig): VizFXWorker {
+    const id = this.effectIds.get(config);
+    if (id !== undefined) {
+      this.post({ type: 'removeEffect', id });
+      this.effectIds.delete(config);
+    }
+
+    return this;
+  }
+
+  /**
+   * Update the layer settings of an effect
+   */
+  setLayer(config: EffectConfig, layer: LayerOptions): VizFXWorker {
+    const id = this.effectIds.get(config);
+    if (id !== undefined) {
+      this.post({ type: 'setLayer', id, layer });
+    }
+
+    return this;
+  }
+
+  /**
+   * Change some options of an effect while it runs
+   */
+  setOptions<T extends EffectConfig>(
+    config: T,
+    options: NonNullable<T['options']>
+  ): VizFXWorker {
+    const id = this.effectIds.get(config);
+    if (id !== undefined) {
+      this.post({ type: 'setOptions', id, options });
+    }
+
+    return this;
+  }
+
+  /**
+   * Start the animation loop
+   */
+  start(): VizFXWorker {
+    this.post({ type: 'start' });
+    return this;
+  }
+
+  /**
+   * Stop the animation loop
+   */
+  stop(): VizFXWorker {
+    this.post({ type: 'stop' });
+    return this;
+  }
+
+  /**
+   * Force reduced motion on or off, or follow the user's preference again
+   * with 'auto'
+   */
+  setReducedMotion(value: boolean | 'auto'): VizFXWorker {
+    this.reducedMotion = value;
+    this.forwardReducedMotion();
+    return this;
+  }
+
+  /**
+   * Resize canvas
+   */
+  resize(width?: number, height?: number): VizFXWorker {
+    const w = width ?? this.canvas.clientWidth;
+    const h = height ?? this.canvas.clientHeight;
+
+    // Explicit sizes pin the CSS size; otherwise CSS stays in control
+    if (width !== undefined || height !== undefined) {
+      this.canvas.style.width = `${w}px`;
+      this.canvas.style.height = `${h}px`;
+    }
+    this.post({ type: 'resize', width: w, height: h });
+
+    return this;
+  }
+
+  /**
+   * Subscribe to an event
+   */
+  on<K extends keyof VizFXEventMap>(
+    event: K,
+    listener: Listener<VizFXEventMap[K]>
+  ): VizFXWorker {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Unsubscribe from an event
+   */
+  off<K extends keyof VizFXEventMap>(
+    event: K,
+    listener: Listener<VizFXEventMap[K]>
+  ): VizFXWorker {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Get the capabilities reported by the worker (null until it is ready)
+   */
+  getCapabilities(): RendererCapabilities | null {
+    return this.capabilities;
+  }
+
+  /**
+   * The latest stats the worker reported. Reports arrive twice a second
+   * with the `stats` option set; otherwise this stays null.
+   */
+  getStats(): VizFXStats | null {
+    return this.stats;
+  }
+
+  /**
+   * Show the worker's stats in a small overlay on the canvas. Needs the
+   * `stats` option.
+   */
+  showStats(options?: StatsOverlayOptions): StatsOverlay {
+    return new StatsOverlay(this, options);
+  }
+
+  /**
+   * Get the main-thread interaction manager whose state is forwarded
+   */
+  getInteraction(): InteractionManager | null {
+    return this.interactionManager;
+  }
+
+  /**
+   * Get the canvas element
+   */
+  getCanvas(): HTMLCanvasElement {
+    return this.canvas;
+  }
+
+  /**
+   * Destroy the worker-side instance and terminate the worker
+   */
+  destroy(): void {
+    this.post({ type: 'destroy' });
+    this.worker.removeEventListener('message', this.handleMessage);
+    this.worker.terminate();
+
+    if (this.interactionManager) {
+      this.interactionManager.off('change', this.forwardPointer);
+      this.interactionManager.destroy();
+      this.interactionManager = null;
+    }
+
+    if (this.resizeObserver) {
+      this.resizeObserver.disconnect();
+      this.resizeObserver = null;
+    }
+    window.removeEventListener('resize', this.handleWindowResize);
+    if (this.visibilityObserver) {
+      this.visibilityObserver.disconnect();
+      this.visibilityObserver = null;
+    }
+    document.removeEventListener('visibilitychange', this.forwardVisibility);
+    this.reducedMotionQuery?.removeEventListener('change', this.forwardReducedMotion);
+    this.reducedMotionQuery = null;
+    this.effectIds.clear();
+    this.events.clear();
+  }
+}
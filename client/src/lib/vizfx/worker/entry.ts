@@ -0,0 +1,8 @@
+/**
+ * Worker entry point. Load with:
+ * new Worker(new URL('./worker/entry.ts', import.meta.url), { type: 'module' })
+ */
+
+import { runVizFXWorker } from './host';
+
+runVizFXWorker();
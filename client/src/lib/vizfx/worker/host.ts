@@ -0,0 +1,138 @@
+/**
+ * Worker host - Runs a VizFX instance on an OffscreenCanvas inside a worker
+ */
+
+import { FallbackInfo, VizFX, VizFXEventMap } from '../core/VizFX';
+import { Effect } from '../core/Effect';
+import { createEffect } from '../core/scene';
+import { WorkerRequest, WorkerResponse } from './protocol';
+
+/**
+ * The parts of a dedicated worker global scope the host relies on
+ */
+export interface WorkerScope {
+  postMessage(message: WorkerResponse): void;
+  addEventListener(
+    type: 'message',
+    listener: (event: MessageEvent<WorkerRequest>) => void
+  ): void;
+}
+
+const forwardedEvents: (keyof VizFXEventMap)[] = [
+  'contextlost',
+  'contextrestored',
+  'qualitychange',
+  'playstatechange',
+  'motionchange',
+];
+
+/**
+ * Milliseconds between stats reports when the `stats` option is set
+ */
+const STATS_INTERVAL = 500;
+
+/**
+ * Start listening for VizFXWorker messages. Call this from the worker script.
+ */
+export function runVizFXWorker(
+  scope: WorkerScope = self as unknown as WorkerScope
+): void {
+  let viz: VizFX | null = null;
+  const effects = new Map<number, Effect>();
+  let statsTimer: ReturnType<typeof setInterval> | null = null;
+
+  const handle = (message: WorkerRequest): void => {
+    if (message.type === 'init') {
+      let fallback: FallbackInfo | null = null;
+      viz = new VizFX({
+        ...message.options,
+        canvas: message.canvas,
+        onFallback: info => {
+          fallback = info;
+        },
+      });
+      for (const event of forwardedEvents) {
+        viz.on(event, payload =>
+          scope.postMessage({ type: 'event', event, payload })
+        );
+      }
+      scope.postMessage({
+        type: 'ready',
+        capabilities: viz.getCapabilities(),
+        fallback,
+      });
+      if (message.options.stats) {
+        statsTimer = setInterval(() => {
+          if (viz) scope.postMessage({ type: 'stats', stats: viz.getStats() });
+        }, STATS_INTERVAL);
+      }
+      return;
+    }
+
+    if (!viz) return;
+
+    switch (message.type) {
+      case 'addEffect': {
+        const effect = createEffect(message.config, 'config');
+        effects.set(message.id, effect);
+        viz.addEffect(effect, message.layer);
+        break;
+      }
+      case 'removeEffect': {
+        const effect = effects.get(message.id);
+        if (effect) {
+          viz.removeEffect(effect);
+          effects.delete(message.id);
+        }
+        break;
+      }
+      case 'setLayer': {
+        const effect = effects.get(message.id);
+        if (effect) viz.getLayer(effect)?.set(message.layer);
+        break;
+      }
+      case 'setOptions':
+        effects.get(message.id)?.setOptions?.(message.options);
+        break;
+      case 'start':
+        viz.start();
+        break;
+      case 'stop':
+        viz.stop();
+        break;
+      case 'suspend':
+        viz.setHidden(true);
+        break;
+      case 'resume':
+        viz.setHidden(false);
+        break;
+      case 'resize':
+        viz.resize(message.width, message.height);
+        break;
+      case 'setReducedMotion':
+        viz.setReducedMotion(message.value);
+        break;
+      case 'pointer':
+        viz.getInteraction()?.setPointer(message.state);
+        break;
+      case 'destroy':
+        if (statsTimer !== null) clearInterval(statsTimer);
+        statsTimer = null;
+        viz.destroy();
+        viz = null;
+        effects.clear();
+        break;
+    }
+  };
+
+  scope.addEventListener('message', event => {
+    try {
+      handle(event.data);
+    } catch (error) {
+      scope.postMessage({
+        type: 'error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
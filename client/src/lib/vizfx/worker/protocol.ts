@@ -0,0 +1,59 @@
+/**
+ * Messages exchanged between VizFXWorker and the worker host
+ */
+
+import { FallbackInfo, VizFXEventMap, VizFXOptions } from '../core/VizFX';
+import { LayerOptions } from '../core/Layer';
+import { RendererCapabilities } from '../core/capabilities';
+import { VizFXStats } from '../core/Stats';
+import { SerializedPointerState } from '../utils/interaction';
+import { ParticleSystemOptions } from '../effects/ParticleSystem';
+import { WaveEffectOptions } from '../effects/WaveEffect';
+import { FloatingParticlesOptions } from '../effects/FloatingParticles';
+import { GradientMeshOptions } from '../effects/GradientMesh';
+
+/**
+ * Serializable description of an effect. Vec2 values may be passed as
+ * Vec2 instances or plain `{ x, y }` objects.
+ */
+export type EffectConfig =
+  | { type: 'particle-system'; options?: ParticleSystemOptions }
+  | { type: 'wave-effect'; options?: WaveEffectOptions }
+  | { type: 'floating-particles'; options?: FloatingParticlesOptions }
+  | { type: 'gradient-mesh'; options?: GradientMeshOptions };
+
+/**
+ * VizFX options that can cross the thread boundary
+ */
+export type WorkerVizFXOptions = Omit<VizFXOptions, 'canvas' | 'onFallback'>;
+
+export type WorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas; options: WorkerVizFXOptions }
+  | { type: 'addEffect'; id: number; config: EffectConfig; layer?: LayerOptions }
+  | { type: 'removeEffect'; id: number }
+  | { type: 'setLayer'; id: number; layer: LayerOptions }
+  | { type: 'setOptions'; id: number; options: object }
+  | { type: 'start' }
+  | { type: 'stop' }
+  /** The placeholder canvas went out of view or the page was hidden */
+  | { type: 'suspend' }
+  | { type: 'resume' }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'setReducedMotion'; value: boolean | 'auto' }
+  | { type: 'pointer'; state: SerializedPointerState }
+  | { type: 'destroy' };
+
+export type WorkerResponse =
+  | {
+      type: 'ready';
+      capabilities: RendererCapabilities | null;
+      /** Set when the worker fell back to Canvas 2D */
+      fallback: FallbackInfo | null;
+    }
+  | {
+      type: 'event';
+      event: keyof VizFXEventMap;
+      payload: VizFXEventMap[keyof VizFXEventMap];
+    }
+  | { type: 'stats'; stats: VizFXStats }
+  | { type: 'error'; message: string };
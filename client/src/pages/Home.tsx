@@ -1,16 +1,18 @@
-import { useEffect, useRef, useState } from 'react';
+import { useState } from 'react';
 import { Link } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Vec2 } from '@/lib/vizfx';
 import {
-  VizFX,
-  ParticleSystem,
-  WaveEffect,
-  FloatingParticles,
-  GradientMesh,
-  Vec2,
-} from '@/lib/vizfx';
+  VizCanvas,
+  GradientMeshLayer,
+  WaveEffectLayer,
+  FloatingParticlesLayer,
+  ParticleSystemLayer,
+  usePointer,
+  useVizFX,
+} from '@/lib/vizfx-react';
 import { Sparkles, Waves, Network, Palette, Code, Zap, Github } from 'lucide-react';
 
 export default function Home() {
@@ -35,47 +37,29 @@ export default function Home() {
 }
 
 function HeroSection() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const vizRef = useRef<VizFX | null>(null);
-
-  useEffect(() => {
-    if (!canvasRef.current) return;
-
-    const viz = new VizFX({ canvas: canvasRef.current, alpha: true });
-    vizRef.current = viz;
-
-    const gradientMesh = new GradientMesh({
-      colors: ['#667eea', '#764ba2', '#f093fb', '#4facfe'],
-      speed: 0.3,
-      complexity: 2.5,
-    });
-
-    const floatingParticles = new FloatingParticles({
-      count: 50,
-      color: '#ffffff',
-      size: 2,
-      speed: 15,
-      connectionDistance: 120,
-      showConnections: true,
-    });
-
-    viz.addEffect(gradientMesh);
-    viz.addEffect(floatingParticles);
-    viz.start();
-
-    return () => {
-      viz.destroy();
-    };
-  }, []);
-
   return (
     <section className="relative min-h-screen flex items-center justify-center overflow-hidden">
       {/* Background Canvas */}
-      <canvas
-        ref={canvasRef}
+      <VizCanvas
+        alpha
         className="absolute inset-0 w-full h-full"
         style={{ opacity: 0.4 }}
-      />
+      >
+        <GradientMeshLayer
+          colors={['#667eea', '#764ba2', '#f093fb', '#4facfe']}
+          speed={0.3}
+          complexity={2.5}
+        />
+        <FloatingParticlesLayer
+          count={50}
+          color="#ffffff"
+          size={2}
+          speed={15}
+          connectionDistance={120}
+          showConnections
+          blendMode="additive"
+        />
+      </VizCanvas>
 
       {/* Content */}
       <div className="container relative z-10 text-center">
@@ -223,47 +207,6 @@ function DemosSection() {
 }
 
 function ParticleDemo() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const vizRef = useRef<VizFX | null>(null);
-  const particleSystemRef = useRef<ParticleSystem | null>(null);
-
-  useEffect(() => {
-    if (!canvasRef.current) return;
-
-    const viz = new VizFX({ canvas: canvasRef.current });
-    vizRef.current = viz;
-
-    const particleSystem = new ParticleSystem({
-      count: 500,
-      color: '#667eea',
-      size: 4,
-      speed: 150,
-      lifetime: 2,
-      gravity: new Vec2(0, -80),
-      emitterRadius: 20,
-      fadeOut: true,
-    });
-    particleSystemRef.current = particleSystem;
-
-    viz.addEffect(particleSystem);
-    viz.start();
-
-    // Mouse interaction
-    const handleMouseMove = (e: MouseEvent) => {
-      const rect = canvasRef.current!.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = rect.height - (e.clientY - rect.top);
-      particleSystem.setEmitterPosition(x, y);
-    };
-
-    canvasRef.current.addEventListener('mousemove', handleMouseMove);
-
-    return () => {
-      canvasRef.current?.removeEventListener('mousemove', handleMouseMove);
-      viz.destroy();
-    };
-  }, []);
-
   return (
     <Card className="p-8 bg-card border-border">
       <div className="space-y-4">
@@ -273,41 +216,44 @@ function ParticleDemo() {
             Move your mouse over the canvas to control the particle emitter
           </p>
         </div>
-        <canvas
-          ref={canvasRef}
-          className="w-full h-[400px] bg-background/50 rounded-lg border border-border"
-        />
+        <VizCanvas className="w-full h-[400px] bg-background/50 rounded-lg border border-border">
+          <PointerParticles />
+        </VizCanvas>
       </div>
     </Card>
   );
 }
 
-function WaveDemo() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const vizRef = useRef<VizFX | null>(null);
-
-  useEffect(() => {
-    if (!canvasRef.current) return;
-
-    const viz = new VizFX({ canvas: canvasRef.current });
-    vizRef.current = viz;
+/**
+ * Particle emitter that follows the pointer
+ */
+function PointerParticles() {
+  const viz = useVizFX();
+  const pointer = usePointer();
 
-    const waveEffect = new WaveEffect({
-      amplitude: 0.08,
-      frequency: 4.0,
-      speed: 1.2,
-      color1: '#6366f1',
-      color2: '#8b5cf6',
-    });
+  // Particles use a y-up coordinate system
+  const canvas = viz?.getCanvas() as HTMLCanvasElement | undefined;
+  const emitterPosition =
+    pointer && canvas
+      ? new Vec2(pointer.position.x, canvas.clientHeight - pointer.position.y)
+      : undefined;
 
-    viz.addEffect(waveEffect);
-    viz.start();
-
-    return () => {
-      viz.destroy();
-    };
-  }, []);
+  return (
+    <ParticleSystemLayer
+      count={500}
+      color="#667eea"
+      size={4}
+      speed={150}
+      lifetime={2}
+      gravity={new Vec2(0, -80)}
+      emitterRadius={20}
+      fadeOut
+      emitterPosition={emitterPosition}
+    />
+  );
+}
 
+function WaveDemo() {
   return (
     <Card className="p-8 bg-card border-border">
       <div className="space-y-4">
@@ -317,42 +263,21 @@ function WaveDemo() {
             Animated wave distortions with smooth gradient colors
           </p>
         </div>
-        <canvas
-          ref={canvasRef}
-          className="w-full h-[400px] rounded-lg border border-border"
-        />
+        <VizCanvas className="w-full h-[400px] rounded-lg border border-border">
+          <WaveEffectLayer
+            amplitude={0.08}
+            frequency={4.0}
+            speed={1.2}
+            color1="#6366f1"
+            color2="#8b5cf6"
+          />
+        </VizCanvas>
       </div>
     </Card>
   );
 }
 
 function FloatingDemo() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const vizRef = useRef<VizFX | null>(null);
-
-  useEffect(() => {
-    if (!canvasRef.current) return;
-
-    const viz = new VizFX({ canvas: canvasRef.current });
-    vizRef.current = viz;
-
-    const floatingParticles = new FloatingParticles({
-      count: 80,
-      color: '#4facfe',
-      size: 3,
-      speed: 25,
-      connectionDistance: 150,
-      showConnections: true,
-    });
-
-    viz.addEffect(floatingParticles);
-    viz.start();
-
-    return () => {
-      viz.destroy();
-    };
-  }, []);
-
   return (
     <Card className="p-8 bg-card border-border">
       <div className="space-y-4">
@@ -362,39 +287,22 @@ function FloatingDemo() {
             Ambient particles with connection lines for a network effect
           </p>
         </div>
-        <canvas
-          ref={canvasRef}
-          className="w-full h-[400px] bg-background/50 rounded-lg border border-border"
-        />
+        <VizCanvas className="w-full h-[400px] bg-background/50 rounded-lg border border-border">
+          <FloatingParticlesLayer
+            count={80}
+            color="#4facfe"
+            size={3}
+            speed={25}
+            connectionDistance={150}
+            showConnections
+          />
+        </VizCanvas>
       </div>
     </Card>
   );
 }
 
 function GradientDemo() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const vizRef = useRef<VizFX | null>(null);
-
-  useEffect(() => {
-    if (!canvasRef.current) return;
-
-    const viz = new VizFX({ canvas: canvasRef.current });
-    vizRef.current = viz;
-
-    const gradientMesh = new GradientMesh({
-      colors: ['#ff6b6b', '#4ecdc4', '#45b7d1', '#f7b731'],
-      speed: 0.6,
-      complexity: 3.5,
-    });
-
-    viz.addEffect(gradientMesh);
-    viz.start();
-
-    return () => {
-      viz.destroy();
-    };
-  }, []);
-
   return (
     <Card className="p-8 bg-card border-border">
       <div className="space-y-4">
@@ -404,10 +312,13 @@ function GradientDemo() {
             Smooth animated gradients with organic noise-based motion
           </p>
         </div>
-        <canvas
-          ref={canvasRef}
-          className="w-full h-[400px] rounded-lg border border-border"
-        />
+        <VizCanvas className="w-full h-[400px] rounded-lg border border-border">
+          <GradientMeshLayer
+            colors={['#ff6b6b', '#4ecdc4', '#45b7d1', '#f7b731']}
+            speed={0.6}
+            complexity={3.5}
+          />
+        </VizCanvas>
       </div>
     </Card>
   );
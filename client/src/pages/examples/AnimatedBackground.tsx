@@ -3,14 +3,15 @@ import { Link } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { ArrowLeft, Code } from 'lucide-react';
-import { VizFX, GradientMesh } from '@/lib/vizfx';
+import { VizFX, GradientMesh, ScrollDriver } from '@/lib/vizfx';
 
 export default function AnimatedBackground() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const vizRef = useRef<VizFX | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    if (!canvasRef.current) return;
+    if (!canvasRef.current || !contentRef.current) return;
 
     const viz = new VizFX({ canvas: canvasRef.current, alpha: false });
     vizRef.current = viz;
@@ -22,9 +23,23 @@ export default function AnimatedBackground() {
     });
 
     viz.addEffect(gradient);
+
+    // Warm the palette up and speed up slightly as the page scrolls
+    const scroll = new ScrollDriver(viz, {
+      element: contentRef.current,
+      range: 'contain',
+    }).bind(gradient, {
+      colors: [
+        ['#1a1a2e', '#16213e', '#0f3460', '#533483'],
+        ['#2d1b3d', '#3b1f4a', '#6b2d5c', '#a13f6b'],
+      ],
+      speed: [0.3, 0.5],
+    });
+
     viz.start();
 
     return () => {
+      scroll.destroy();
       viz.destroy();
     };
   }, []);
@@ -62,7 +77,7 @@ viz.start();`;
       />
 
       {/* Content */}
-      <div className="relative z-10">
+      <div ref={contentRef} className="relative z-10">
         {/* Header */}
         <div className="container py-4">
           <Link href="/examples">
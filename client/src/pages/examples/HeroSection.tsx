@@ -1,46 +1,10 @@
-import { useEffect, useRef } from 'react';
 import { Link } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Code } from 'lucide-react';
-import { VizFX, GradientMesh, FloatingParticles } from '@/lib/vizfx';
+import { VizCanvas, GradientMeshLayer, FloatingParticlesLayer } from '@/lib/vizfx-react';
 import { Card } from '@/components/ui/card';
 
 export default function HeroSection() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const vizRef = useRef<VizFX | null>(null);
-
-  useEffect(() => {
-    if (!canvasRef.current) return;
-
-    const viz = new VizFX({ canvas: canvasRef.current, alpha: true });
-    vizRef.current = viz;
-
-    // Gradient background
-    const gradient = new GradientMesh({
-      colors: ['#667eea', '#764ba2', '#f093fb', '#4facfe'],
-      speed: 0.4,
-      complexity: 2.5,
-    });
-
-    // Floating particles
-    const particles = new FloatingParticles({
-      count: 60,
-      color: '#ffffff',
-      size: 2.5,
-      speed: 15,
-      connectionDistance: 120,
-      showConnections: true,
-    });
-
-    viz.addEffect(gradient);
-    viz.addEffect(particles);
-    viz.start();
-
-    return () => {
-      viz.destroy();
-    };
-  }, []);
-
   const codeExample = `import { VizFX, GradientMesh, FloatingParticles } from 'vizfx';
 
 const viz = new VizFX({ canvas: '#hero-canvas', alpha: true });
@@ -68,11 +32,25 @@ viz.start();`;
     <div className="min-h-screen bg-background">
       {/* Example Hero */}
       <section className="relative h-screen flex items-center justify-center overflow-hidden">
-        <canvas
-          ref={canvasRef}
+        <VizCanvas
+          alpha
           className="absolute inset-0 w-full h-full"
           style={{ opacity: 0.6 }}
-        />
+        >
+          <GradientMeshLayer
+            colors={['#667eea', '#764ba2', '#f093fb', '#4facfe']}
+            speed={0.4}
+            complexity={2.5}
+          />
+          <FloatingParticlesLayer
+            count={60}
+            color="#ffffff"
+            size={2.5}
+            speed={15}
+            connectionDistance={120}
+            showConnections
+          />
+        </VizCanvas>
         
         <div className="relative z-10 text-center px-4">
           <h1 className="text-6xl md:text-8xl font-bold mb-6 bg-gradient-to-r from-white via-white to-white/80 bg-clip-text text-transparent">
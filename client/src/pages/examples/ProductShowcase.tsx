@@ -14,6 +14,7 @@ const products = [
 function ProductCard({ product }: { product: typeof products[0] }) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const vizRef = useRef<VizFX | null>(null);
+  const waveRef = useRef<WaveEffect | null>(null);
   const [isHovered, setIsHovered] = useState(false);
 
   useEffect(() => {
@@ -25,10 +26,11 @@ function ProductCard({ product }: { product: typeof products[0] }) {
     const wave = new WaveEffect({
       amplitude: 0.06,
       frequency: 3.5,
-      speed: isHovered ? 1.5 : 0.8,
+      speed: 0.8,
       color1: product.color1,
       color2: product.color2,
     });
+    waveRef.current = wave;
 
     viz.addEffect(wave);
     viz.start();
@@ -36,7 +38,18 @@ function ProductCard({ product }: { product: typeof products[0] }) {
     return () => {
       viz.destroy();
     };
-  }, [isHovered, product.color1, product.color2]);
+  }, [product.color1, product.color2]);
+
+  useEffect(() => {
+    if (!vizRef.current || !waveRef.current) return;
+
+    // Ease the speed change instead of rebuilding the scene
+    vizRef.current.tween(
+      waveRef.current,
+      { speed: isHovered ? 1.5 : 0.8 },
+      { duration: 0.4 }
+    );
+  }, [isHovered]);
 
   return (
     <Card
@@ -75,6 +88,8 @@ export default function ProductShowcase() {
 
 function ProductCard({ product }) {
   const [isHovered, setIsHovered] = useState(false);
+  const vizRef = useRef(null);
+  const waveRef = useRef(null);
 
   useEffect(() => {
     const viz = new VizFX({ canvas: '#product-canvas', alpha: true });
@@ -82,16 +97,23 @@ function ProductCard({ product }) {
     const wave = new WaveEffect({
       amplitude: 0.06,
       frequency: 3.5,
-      speed: isHovered ? 1.5 : 0.8,  // Speed up on hover
+      speed: 0.8,
       color1: product.color1,
       color2: product.color2,
     });
 
     viz.addEffect(wave);
     viz.start();
+    vizRef.current = viz;
+    waveRef.current = wave;
 
     return () => viz.destroy();
-  }, [isHovered, product]);
+  }, [product]);
+
+  useEffect(() => {
+    // Speed up on hover, eased over 0.4s
+    vizRef.current?.tween(waveRef.current, { speed: isHovered ? 1.5 : 0.8 }, { duration: 0.4 });
+  }, [isHovered]);
 
   return (
     <div 
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Library unit tests run in Node; they don't need a DOM or WebGL
+export default defineConfig({
+  test: {
+    include: ["client/src/lib/**/*.test.ts"],
+    environment: "node",
+  },
+});